@@ -3,13 +3,35 @@ import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
+import { AuthProvider } from "@/hooks/use-auth";
+import { LocaleProvider } from "@/hooks/use-locale";
+import { ProtectedRoute } from "@/lib/protected-route";
 import RoofingCalculator from "@/components/RoofingCalculator";
+import StaffNav from "@/components/StaffNav";
+import AuthPage from "@/pages/auth-page";
+import PriceBook from "@/pages/price-book";
+import Estimates from "@/pages/estimates";
+import EstimateEditor from "@/pages/estimate-editor";
+import Leads from "@/pages/leads";
+import Reports from "@/pages/reports";
+import Users from "@/pages/users";
+import SharedEstimatePage from "@/pages/shared-estimate";
+import EmbedPage from "@/pages/embed";
 import NotFound from "@/pages/not-found";
 
 function Router() {
   return (
     <Switch>
-      <Route path="/" component={RoofingCalculator} />
+      <Route path="/">{() => <RoofingCalculator />}</Route>
+      <Route path="/auth" component={AuthPage} />
+      <Route path="/estimate/:token" component={SharedEstimatePage} />
+      {/* Staff tools, matching the permissions enforced in server/routes.ts */}
+      <ProtectedRoute path="/estimates" component={Estimates} permission="estimates:edit" />
+      <ProtectedRoute path="/estimates/:id" component={EstimateEditor} permission="estimates:edit" />
+      <ProtectedRoute path="/leads" component={Leads} permission="estimates:edit" />
+      <ProtectedRoute path="/reports" component={Reports} permission="reports:view" />
+      <ProtectedRoute path="/admin/price-book" component={PriceBook} permission="pricebook:edit" />
+      <ProtectedRoute path="/admin/users" component={Users} permission="users:manage" />
       {/* Fallback to 404 */}
       <Route component={NotFound} />
     </Switch>
@@ -19,10 +41,21 @@ function Router() {
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <TooltipProvider>
-        <Toaster />
-        <Router />
-      </TooltipProvider>
+      <LocaleProvider>
+        <AuthProvider>
+          <TooltipProvider>
+            <Toaster />
+            <Switch>
+              {/* Framed on the marketing site by /embed.js, without the staff navigation */}
+              <Route path="/embed" component={EmbedPage} />
+              <Route>
+                <StaffNav />
+                <Router />
+              </Route>
+            </Switch>
+          </TooltipProvider>
+        </AuthProvider>
+      </LocaleProvider>
     </QueryClientProvider>
   );
 }
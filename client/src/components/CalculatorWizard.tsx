@@ -0,0 +1,431 @@
+import { useState, type ReactNode } from 'react';
+import type { FieldPath, UseFormReturn } from 'react-hook-form';
+import { ArrowLeft, ArrowRight, Building2, Calculator, Check, Home, Ruler } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import MaterialSwatch from '@/components/MaterialSwatch';
+import { useLocale } from '@/hooks/use-locale';
+import { CalculatorFormData, MaterialOption, RoofingType } from '@shared/roofing';
+import { materialLifespans } from '@shared/roofing-calculations';
+import { MAX_ROOF_SIZE, type ValidCalculatorFormData } from '@shared/schema';
+import { formatMaterialOption } from '@shared/i18n';
+
+type WizardStep = 'property' | 'material' | 'size' | 'job' | 'extras' | 'results';
+
+// Each step checks only its own inputs before moving on. Material comes before
+// size because the size helper's waste allowance depends on it.
+const STEPS: { id: WizardStep; fields: FieldPath<CalculatorFormData>[] }[] = [
+  { id: 'property', fields: ['roofingType'] },
+  { id: 'material', fields: ['material'] },
+  { id: 'size', fields: ['roofSize', 'complexity'] },
+  { id: 'job', fields: ['jobType'] },
+  { id: 'extras', fields: ['tearoff', 'permits', 'zipCode'] },
+  { id: 'results', fields: [] }
+];
+
+const RESULTS_STEP = STEPS.length - 1;
+
+// Plain-language copy, since the estimator terms in the pro form ("Modified
+// Bitumen", "complexity") mean little to homeowners
+interface GuideOption {
+  title: string;
+  description: string;
+}
+
+function ChoiceCard({
+  selected,
+  onSelect,
+  option,
+  icon,
+  detail,
+  testId
+}: {
+  selected: boolean;
+  onSelect: () => void;
+  option: GuideOption;
+  icon?: ReactNode;
+  detail?: ReactNode;
+  testId: string;
+}) {
+  return (
+    <button
+      type="button"
+      role="radio"
+      aria-checked={selected}
+      onClick={onSelect}
+      className={`w-full text-left rounded-md border-2 p-4 transition-colors hover:border-primary/60 focus:outline-none focus-visible:ring-2 focus-visible:ring-ring ${
+        selected ? 'border-primary bg-primary/5' : 'border-border'
+      }`}
+      data-testid={testId}
+    >
+      {icon}
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-semibold">{option.title}</span>
+        {selected && <Check className="w-4 h-4 text-primary shrink-0" />}
+      </div>
+      <p className="text-sm text-muted-foreground mt-1">{option.description}</p>
+      {detail}
+    </button>
+  );
+}
+
+interface CalculatorWizardProps {
+  form: UseFormReturn<CalculatorFormData, unknown, ValidCalculatorFormData>;
+  materialOptions: MaterialOption[];
+  isPriceBookLoading: boolean;
+  onRoofingTypeChange: (type: RoofingType) => void;
+  sizeHelper: ReactNode;
+  onCalculate: () => Promise<boolean>; // prices the estimate; false if it couldn't be
+  calculating: boolean;
+  results: ReactNode;
+  onStartOver: () => void;
+  startAtResults?: boolean;
+}
+
+// The homeowner's step-by-step version of the calculator. It edits the same
+// form as pro mode, so switching modes keeps the answers.
+export default function CalculatorWizard({
+  form,
+  materialOptions,
+  isPriceBookLoading,
+  onRoofingTypeChange,
+  sizeHelper,
+  onCalculate,
+  calculating,
+  results,
+  onStartOver,
+  startAtResults = false
+}: CalculatorWizardProps) {
+  const [stepIndex, setStepIndex] = useState(startAtResults ? RESULTS_STEP : 0);
+  const step = STEPS[stepIndex];
+  const formData = form.watch();
+  const { locale, t } = useLocale();
+
+  const goNext = async () => {
+    if (!(await form.trigger(step.fields))) {
+      return;
+    }
+    // Only replacements have an old roof to tear off
+    if (step.id === 'job' && formData.jobType !== 'replacement') {
+      form.setValue('tearoff', false);
+    }
+    if (step.id === 'extras' && !(await onCalculate())) {
+      return;
+    }
+    setStepIndex(stepIndex + 1);
+  };
+
+  const startOver = () => {
+    onStartOver();
+    setStepIndex(0);
+  };
+
+  return (
+    <Card className="shadow-lg" data-testid="card-wizard">
+      <CardContent className="p-6">
+        {/* Progress */}
+        <div className="mb-6">
+          <div className="flex justify-between text-sm mb-2">
+            <span className="font-medium" data-testid="text-wizard-step">
+              {t('wizard.progress', { current: stepIndex + 1, total: STEPS.length, title: t(`wizard.step.${step.id}`) })}
+            </span>
+            <span className="text-muted-foreground">{Math.round((stepIndex / RESULTS_STEP) * 100)}%</span>
+          </div>
+          <Progress value={(stepIndex / RESULTS_STEP) * 100} className="h-2" aria-label={t('wizard.progressLabel')} />
+          <ol className="hidden sm:flex justify-between mt-3 text-xs">
+            {STEPS.map((item, index) => (
+              <li key={item.id}>
+                <button
+                  type="button"
+                  onClick={() => setStepIndex(index)}
+                  disabled={index >= stepIndex}
+                  aria-current={index === stepIndex ? 'step' : undefined}
+                  className={`disabled:cursor-default ${
+                    index === stepIndex
+                      ? 'font-semibold text-primary'
+                      : index < stepIndex
+                        ? 'text-foreground hover:underline'
+                        : 'text-muted-foreground'
+                  }`}
+                  data-testid={`button-wizard-step-${item.id}`}
+                >
+                  {t(`wizard.step.${item.id}`)}
+                </button>
+              </li>
+            ))}
+          </ol>
+        </div>
+
+        {/* Not a <form>: the size helper and results have buttons of their own */}
+        <Form {...form}>
+          <div>
+            {step.id === 'property' && (
+              <fieldset>
+                <legend className="text-xl font-semibold mb-4">{t('wizard.propertyQuestion')}</legend>
+                <div role="radiogroup" className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  {(['residential', 'commercial'] as const).map(type => (
+                    <ChoiceCard
+                      key={type}
+                      selected={formData.roofingType === type}
+                      onSelect={() => onRoofingTypeChange(type)}
+                      option={{
+                        title: t(`guide.roofingType.${type}.title`),
+                        description: t(`guide.roofingType.${type}.description`)
+                      }}
+                      icon={type === 'residential'
+                        ? <Home className="w-6 h-6 text-primary mb-2" />
+                        : <Building2 className="w-6 h-6 text-primary mb-2" />}
+                      testId={`choice-roofing-type-${type}`}
+                    />
+                  ))}
+                </div>
+              </fieldset>
+            )}
+
+            {step.id === 'material' && (
+              <FormField
+                control={form.control}
+                name="material"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-xl font-semibold">{t('wizard.materialQuestion')}</FormLabel>
+                    {isPriceBookLoading ? (
+                      <p className="text-muted-foreground">{t('calculator.materialsLoading')}</p>
+                    ) : (
+                      <div role="radiogroup" className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                        {materialOptions.map(option => {
+                          const [minYears, maxYears] = materialLifespans[option.value];
+                          return (
+                            <ChoiceCard
+                              key={option.value}
+                              selected={field.value === option.value}
+                              onSelect={() => field.onChange(option.value)}
+                              option={{ title: formatMaterialOption(locale, option), description: t(`guide.material.${option.value}`) }}
+                              icon={<MaterialSwatch material={option.value} className="w-full h-20 rounded mb-3" />}
+                              detail={
+                                <p className="text-xs text-muted-foreground mt-2">{t('wizard.lifespan', { min: minYears, max: maxYears })}</p>
+                              }
+                              testId={`choice-material-${option.value}`}
+                            />
+                          );
+                        })}
+                      </div>
+                    )}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {step.id === 'size' && (
+              <div className="space-y-6">
+                <FormField
+                  control={form.control}
+                  name="roofSize"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-xl font-semibold">{t('wizard.sizeQuestion')}</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min="1"
+                          max={MAX_ROOF_SIZE}
+                          name={field.name}
+                          ref={field.ref}
+                          onBlur={field.onBlur}
+                          value={field.value || ''}
+                          onChange={(e) => {
+                            field.onChange(parseFloat(e.target.value) || 0);
+                            form.setValue('edges', undefined);
+                          }}
+                          placeholder={t('wizard.sizePlaceholder')}
+                          data-testid="input-wizard-roof-size"
+                        />
+                      </FormControl>
+                      <FormDescription>
+                        {t('wizard.sizeHint')}
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <Collapsible>
+                  <CollapsibleTrigger asChild>
+                    <Button type="button" variant="outline" className="w-full" data-testid="button-wizard-size-helper">
+                      <Ruler className="w-4 h-4 mr-2" />
+                      {t('wizard.sizeHelper')}
+                    </Button>
+                  </CollapsibleTrigger>
+                  <CollapsibleContent className="pt-4">{sizeHelper}</CollapsibleContent>
+                </Collapsible>
+
+                <FormField
+                  control={form.control}
+                  name="complexity"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-base font-semibold">{t('wizard.shapeQuestion')}</FormLabel>
+                      <div role="radiogroup" className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                        {(['simple', 'medium', 'complex'] as const).map(complexity => (
+                          <ChoiceCard
+                            key={complexity}
+                            selected={field.value === complexity}
+                            onSelect={() => field.onChange(complexity)}
+                            option={{
+                              title: t(`guide.complexity.${complexity}.title`),
+                              description: t(`guide.complexity.${complexity}.description`)
+                            }}
+                            testId={`choice-complexity-${complexity}`}
+                          />
+                        ))}
+                      </div>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            )}
+
+            {step.id === 'job' && (
+              <FormField
+                control={form.control}
+                name="jobType"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-xl font-semibold">{t('wizard.jobQuestion')}</FormLabel>
+                    <div role="radiogroup" className="grid grid-cols-1 gap-3">
+                      {(['replacement', 'new', 'repair'] as const).map(jobType => (
+                        <ChoiceCard
+                          key={jobType}
+                          selected={field.value === jobType}
+                          onSelect={() => field.onChange(jobType)}
+                          option={{
+                            title: t(`guide.jobType.${jobType}.title`),
+                            description: t(`guide.jobType.${jobType}.description`)
+                          }}
+                          testId={`choice-job-type-${jobType}`}
+                        />
+                      ))}
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {step.id === 'extras' && (
+              <div className="space-y-5">
+                <h3 className="text-xl font-semibold">{t('wizard.extrasTitle')}</h3>
+                {formData.jobType === 'replacement' && (
+                  <FormField
+                    control={form.control}
+                    name="tearoff"
+                    render={({ field }) => (
+                      <FormItem className="flex items-start space-x-3 space-y-0">
+                        <FormControl>
+                          <Checkbox
+                            ref={field.ref}
+                            checked={field.value}
+                            onCheckedChange={(checked) => field.onChange(checked === true)}
+                            data-testid="checkbox-wizard-tearoff"
+                          />
+                        </FormControl>
+                        <div className="space-y-1">
+                          <FormLabel className="font-medium">{t('wizard.tearoff')}</FormLabel>
+                          <FormDescription>
+                            {t('wizard.tearoffHint')}
+                          </FormDescription>
+                          <FormMessage />
+                        </div>
+                      </FormItem>
+                    )}
+                  />
+                )}
+                <FormField
+                  control={form.control}
+                  name="permits"
+                  render={({ field }) => (
+                    <FormItem className="flex items-start space-x-3 space-y-0">
+                      <FormControl>
+                        <Checkbox
+                          ref={field.ref}
+                          checked={field.value}
+                          onCheckedChange={(checked) => field.onChange(checked === true)}
+                          data-testid="checkbox-wizard-permits"
+                        />
+                      </FormControl>
+                      <div className="space-y-1">
+                        <FormLabel className="font-medium">{t('wizard.permits')}</FormLabel>
+                        <FormDescription>{t('wizard.permitsHint')}</FormDescription>
+                      </div>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="zipCode"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="font-medium">{t('wizard.zipCode')}</FormLabel>
+                      <FormControl>
+                        <Input
+                          inputMode="numeric"
+                          maxLength={5}
+                          {...field}
+                          value={field.value ?? ''}
+                          onChange={(e) => field.onChange(e.target.value.replace(/\D/g, ''))}
+                          placeholder={t('calculator.zipCodePlaceholder')}
+                          data-testid="input-wizard-zip-code"
+                        />
+                      </FormControl>
+                      <FormDescription>{t('wizard.zipCodeHint')}</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            )}
+
+            {step.id === 'results' && <div data-testid="wizard-results">{results}</div>}
+
+            {/* Navigation */}
+            <div className="flex justify-between gap-3 mt-8">
+              {stepIndex > 0 ? (
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setStepIndex(stepIndex - 1)}
+                  data-testid="button-wizard-back"
+                >
+                  <ArrowLeft className="w-4 h-4 mr-2" />
+                  {t('wizard.back')}
+                </Button>
+              ) : <span />}
+              {step.id === 'results' ? (
+                <Button type="button" variant="secondary" onClick={startOver} data-testid="button-wizard-start-over">
+                  {t('wizard.startOver')}
+                </Button>
+              ) : step.id === 'extras' ? (
+                <Button type="button" onClick={goNext} disabled={calculating} data-testid="button-wizard-calculate">
+                  <Calculator className="w-4 h-4 mr-2" />
+                  {t('wizard.calculate')}
+                </Button>
+              ) : (
+                <Button type="button" onClick={goNext} data-testid="button-wizard-next">
+                  {t('wizard.next')}
+                  <ArrowRight className="w-4 h-4 ml-2" />
+                </Button>
+              )}
+            </div>
+          </div>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,155 @@
+import { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { applyDiscount } from '@shared/roofing-calculations';
+import { hasPermission } from '@shared/permissions';
+import { formatCurrency } from '@shared/i18n';
+import {
+  MAX_DISCOUNT_PERCENT,
+  requestDiscountSchema,
+  type DiscountStatus,
+  type EstimateWithCustomer
+} from '@shared/schema';
+
+const statusLabels: Record<DiscountStatus, string> = {
+  none: 'No discount',
+  pending: 'Awaiting approval',
+  approved: 'Approved',
+  rejected: 'Rejected'
+};
+
+type DiscountAction =
+  | { type: 'request'; percent: number }
+  | { type: 'review'; approved: boolean }
+  | { type: 'remove' };
+
+interface DiscountPanelProps {
+  estimate: EstimateWithCustomer;
+}
+
+export default function DiscountPanel({ estimate }: DiscountPanelProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [percent, setPercent] = useState(estimate.discountPercent || 5);
+  const canApprove = hasPermission(user, 'discounts:approve');
+
+  const discountMutation = useMutation({
+    mutationFn: async (action: DiscountAction) => {
+      const url = `/api/estimates/${estimate.id}/discount`;
+      const res = action.type === 'request'
+        ? await apiRequest('POST', url, { percent: action.percent })
+        : action.type === 'review'
+          ? await apiRequest('POST', `${url}/review`, { approved: action.approved })
+          : await apiRequest('DELETE', url);
+      return (await res.json()) as EstimateWithCustomer;
+    },
+    onSuccess: ({ discountPercent, discountStatus, discountReviewedBy }) => {
+      // Merge so the calculator doesn't reload its inputs for a discount change
+      queryClient.setQueryData<EstimateWithCustomer>(['/api/estimates', estimate.id], prev =>
+        prev && { ...prev, discountPercent, discountStatus, discountReviewedBy }
+      );
+      queryClient.invalidateQueries({ queryKey: ['/api/estimates'], exact: true });
+      queryClient.invalidateQueries({ queryKey: ['/api/reports/estimates'] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Discount Failed", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const requestDiscount = () => {
+    const parsed = requestDiscountSchema.safeParse({ percent });
+    if (!parsed.success) {
+      toast({ title: "Invalid Discount", description: parsed.error.issues[0].message, variant: "destructive" });
+      return;
+    }
+    discountMutation.mutate({ type: 'request', percent: parsed.data.percent });
+  };
+
+  const { discountStatus, discountPercent, breakdown } = estimate;
+
+  return (
+    <div className="mb-6 rounded-md border border-border p-4" data-testid="panel-discount">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-medium text-card-foreground">Discount</h3>
+        <Badge
+          variant={discountStatus === 'approved' ? 'default' : discountStatus === 'rejected' ? 'destructive' : 'outline'}
+          data-testid="badge-discount-status"
+        >
+          {statusLabels[discountStatus]}
+          {discountStatus !== 'none' && ` · ${discountPercent}%`}
+        </Badge>
+      </div>
+
+      {discountStatus === 'approved' && (
+        <div className="flex justify-between items-center mb-3 text-sm" data-testid="text-discounted-total">
+          <span className="text-muted-foreground">Midpoint after discount:</span>
+          <span className="font-bold text-primary">
+            {formatCurrency(applyDiscount(breakdown.totalMid, discountPercent))}
+          </span>
+        </div>
+      )}
+
+      {discountStatus === 'pending' && canApprove && (
+        <div className="grid grid-cols-2 gap-3 mb-3">
+          <Button
+            onClick={() => discountMutation.mutate({ type: 'review', approved: true })}
+            disabled={discountMutation.isPending}
+            data-testid="button-approve-discount"
+          >
+            Approve
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => discountMutation.mutate({ type: 'review', approved: false })}
+            disabled={discountMutation.isPending}
+            data-testid="button-reject-discount"
+          >
+            Reject
+          </Button>
+        </div>
+      )}
+
+      <div className="flex items-end gap-3">
+        <div className="flex-1">
+          <Label htmlFor="discount-percent" className="block text-sm font-medium mb-2">
+            Percent off (max {MAX_DISCOUNT_PERCENT}%)
+          </Label>
+          <Input
+            id="discount-percent"
+            type="number"
+            min="0"
+            max={MAX_DISCOUNT_PERCENT}
+            step="0.5"
+            value={percent}
+            onChange={(e) => setPercent(parseFloat(e.target.value) || 0)}
+            data-testid="input-discount-percent"
+          />
+        </div>
+        <Button
+          variant="secondary"
+          onClick={requestDiscount}
+          disabled={discountMutation.isPending}
+          data-testid="button-request-discount"
+        >
+          {canApprove ? 'Apply' : 'Request'}
+        </Button>
+        {discountStatus !== 'none' && (
+          <Button
+            variant="ghost"
+            onClick={() => discountMutation.mutate({ type: 'remove' })}
+            disabled={discountMutation.isPending}
+            data-testid="button-remove-discount"
+          >
+            Remove
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+import type { ReactNode } from 'react';
+import { PieChart, Pie, Cell, ResponsiveContainer, Legend, Tooltip } from 'recharts';
+import { Card, CardContent } from '@/components/ui/card';
+import { useLocale } from '@/hooks/use-locale';
+import { CostBreakdown, LineItemCategory } from '@shared/roofing';
+
+const CHART_COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#06b6d4', '#ec4899', '#84cc16'];
+
+const LINE_ITEM_CATEGORIES: LineItemCategory[] = ['materials', 'labor', 'addons'];
+
+interface EstimateResultsProps {
+  results: CostBreakdown;
+  measuredEdges?: boolean;
+  showTakeoff?: boolean;
+  insights?: ReactNode; // shown between the chart and the material order list
+  children?: ReactNode; // actions at the bottom of the card
+}
+
+// The results card, shared by the calculator and read-only estimate links
+export default function EstimateResults({
+  results,
+  measuredEdges = false,
+  showTakeoff = true,
+  insights,
+  children
+}: EstimateResultsProps) {
+  const { t, term, formatCurrency, formatNumber } = useLocale();
+
+  // Prepare chart data, one slice per line item
+  const chartData = results.lineItems
+    .filter(item => item.mid > 0)
+    .map((item, index) => ({
+      name: term(item.description),
+      value: item.mid,
+      color: CHART_COLORS[index % CHART_COLORS.length]
+    }));
+
+  return (
+    <Card className="shadow-lg fade-in" data-testid="card-results">
+      <CardContent className="p-6">
+        <h2 className="text-2xl font-semibold mb-1 text-card-foreground" data-testid="title-cost-estimate">
+          {t('results.title')}
+        </h2>
+        <p className="text-sm text-muted-foreground mb-6" data-testid="text-region">
+          {t('results.region', { region: results.region })}
+        </p>
+        
+        {/* Cost Breakdown */}
+        <div className="space-y-4 mb-6">
+          {LINE_ITEM_CATEGORIES.map(category => {
+            const items = results.lineItems.filter(item => item.category === category);
+            if (items.length === 0) {
+              return null;
+            }
+            return (
+              <div key={category} className="border-b border-border pb-2" data-testid={`group-${category}`}>
+                <div className="flex justify-between items-center py-2">
+                  <span className="text-muted-foreground" data-testid={`label-${category}-cost`}>{t(`results.${category}`)}:</span>
+                  <span className="font-medium" data-testid={`text-${category}-cost`}>
+                    {formatCurrency(results[category])}
+                  </span>
+                </div>
+                {items.map((item, index) => (
+                  <div
+                    key={`${category}-${index}`}
+                    className="flex justify-between items-center pl-4 py-1 text-sm"
+                    data-testid={`line-item-${category}-${index}`}
+                  >
+                    <span>
+                      {term(item.description)}
+                      <span className="text-muted-foreground ml-2">
+                        {t('results.unitCost', {
+                          quantity: item.quantity,
+                          unit: term(item.unit),
+                          cost: formatCurrency(item.unitCost, { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+                        })}
+                      </span>
+                    </span>
+                    <span className="text-muted-foreground">
+                      {formatCurrency(item.mid)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            );
+          })}
+          <div className="flex justify-between items-center py-3 border-t-2 border-primary">
+            <span className="text-lg font-semibold" data-testid="label-total-range">{t('results.totalRange')}</span>
+            <span className="text-lg font-bold text-primary" data-testid="text-total-range">
+              {formatCurrency(results.totalLow)} - {formatCurrency(results.totalHigh)}
+            </span>
+          </div>
+          <div className="flex justify-between items-center py-2">
+            <span className="text-lg font-semibold" data-testid="label-midpoint-total">{t('results.midpoint')}</span>
+            <span className="text-xl font-bold text-primary" data-testid="text-midpoint-total">
+              {formatCurrency(results.totalMid)}
+            </span>
+          </div>
+        </div>
+
+        {/* Chart Container */}
+        {chartData.length > 0 && (
+          <div className="mb-6">
+            <h3 className="text-lg font-medium mb-4 text-card-foreground" data-testid="title-cost-breakdown">
+              {t('results.breakdown')}
+            </h3>
+            <div className="h-64" data-testid="chart-cost-breakdown">
+              <ResponsiveContainer width="100%" height="100%">
+                <PieChart>
+                  <Pie
+                    data={chartData}
+                    cx="50%"
+                    cy="50%"
+                    innerRadius={40}
+                    outerRadius={80}
+                    paddingAngle={5}
+                    dataKey="value"
+                  >
+                    {chartData.map((entry, index) => (
+                      <Cell key={`cell-${index}`} fill={entry.color} />
+                    ))}
+                  </Pie>
+                  <Tooltip 
+                    formatter={(value: number) => [formatCurrency(value), '']}
+                  />
+                  <Legend />
+                </PieChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        )}
+        {insights}
+
+        {/* Material Takeoff */}
+        {showTakeoff && results.takeoff.length > 0 && (
+          <div className="mb-6">
+            <h3 className="text-lg font-medium mb-4 text-card-foreground" data-testid="title-material-takeoff">
+              {t('results.takeoff')}
+            </h3>
+            <div className="space-y-1 text-sm">
+              {results.takeoff.map((item, index) => (
+                <div
+                  key={index}
+                  className="flex justify-between items-center py-1 border-b border-border last:border-b-0"
+                  data-testid={`takeoff-item-${index}`}
+                >
+                  <span>{term(item.description)}</span>
+                  <span className="font-medium">
+                    {formatNumber(item.quantity)} {term(item.unit)}
+                  </span>
+                </div>
+              ))}
+            </div>
+            {!measuredEdges && (
+              <p className="text-xs text-muted-foreground mt-2" data-testid="text-takeoff-hint">
+                {t('results.takeoffHint')}
+              </p>
+            )}
+          </div>
+        )}
+
+        {children}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,24 @@
+import { Languages } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useLocale } from '@/hooks/use-locale';
+import { LOCALES, localeNames, type Locale } from '@shared/i18n';
+
+export default function LanguageSwitcher() {
+  const { locale, setLocale, t } = useLocale();
+
+  return (
+    <Select value={locale} onValueChange={(value: Locale) => setLocale(value)}>
+      <SelectTrigger className="w-36" aria-label={t('calculator.language')} data-testid="select-language">
+        <Languages className="w-4 h-4 mr-2 shrink-0" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {LOCALES.map(value => (
+          <SelectItem key={value} value={value} lang={value} data-testid={`option-language-${value}`}>
+            {localeNames[value]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
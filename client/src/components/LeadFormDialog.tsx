@@ -0,0 +1,187 @@
+import { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { CheckCircle2, Send } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { apiRequest } from '@/lib/queryClient';
+import { postEmbedEvent } from '@/lib/embed-events';
+import { useToast } from '@/hooks/use-toast';
+import { useLocale } from '@/hooks/use-locale';
+import {
+  contactTimeSchema,
+  insertLeadSchema,
+  type InsertLead,
+  type ValidCalculatorFormData
+} from '@shared/schema';
+
+// The language is the one the homeowner is viewing the calculator in
+type LeadContact = Omit<InsertLead, 'formData' | 'language'>;
+
+const emptyContact: LeadContact = {
+  name: '',
+  phone: '',
+  email: '',
+  address: '',
+  preferredContactTime: 'anytime'
+};
+
+interface LeadFormDialogProps {
+  formData: ValidCalculatorFormData;
+}
+
+export default function LeadFormDialog({ formData }: LeadFormDialogProps) {
+  const { toast } = useToast();
+  const { locale, t, errorMessage, validationMessage } = useLocale();
+  const [open, setOpen] = useState(false);
+  const [contact, setContact] = useState<LeadContact>(emptyContact);
+
+  const leadMutation = useMutation({
+    mutationFn: async (lead: InsertLead) => {
+      const res = await apiRequest('POST', '/api/leads', lead);
+      return (await res.json()) as { id: string };
+    },
+    onSuccess: ({ id }, lead) => {
+      postEmbedEvent({ type: 'lead:submitted', leadId: id, formData: lead.formData });
+    },
+    onError: (error: Error) => {
+      toast({ title: t('lead.failed'), description: errorMessage(error), variant: "destructive" });
+    }
+  });
+
+  const submit = () => {
+    const parsed = insertLeadSchema.safeParse({ ...contact, formData, language: locale });
+    if (!parsed.success) {
+      toast({
+        title: t('calculator.missingInformation'),
+        description: validationMessage(parsed.error.issues[0].message),
+        variant: "destructive"
+      });
+      return;
+    }
+    leadMutation.mutate(parsed.data);
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    // Start fresh after a sent request so a second quote isn't a resubmission
+    if (!nextOpen && leadMutation.isSuccess) {
+      setContact(emptyContact);
+      leadMutation.reset();
+    }
+  };
+
+  const updateContact = (field: keyof LeadContact, value: string) => {
+    setContact(prev => ({ ...prev, [field]: value }));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="w-full" size="lg" data-testid="button-get-quote">
+          <Send className="w-4 h-4 mr-2" />
+          {t('lead.button')}
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        {leadMutation.isSuccess ? (
+          <div className="text-center py-6" data-testid="text-lead-sent">
+            <CheckCircle2 className="w-12 h-12 text-primary mx-auto mb-4" />
+            <DialogTitle className="mb-2">{t('lead.sentTitle')}</DialogTitle>
+            <DialogDescription>
+              {t('lead.sentDescription', { name: contact.name })}
+            </DialogDescription>
+          </div>
+        ) : (
+          <>
+            <DialogHeader>
+              <DialogTitle data-testid="title-lead-form">{t('lead.button')}</DialogTitle>
+              <DialogDescription>
+                {t('lead.description')}
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-4">
+              <div>
+                <Label htmlFor="lead-name" className="block text-sm font-medium mb-2">{t('lead.name')}</Label>
+                <Input
+                  id="lead-name"
+                  autoComplete="name"
+                  value={contact.name}
+                  onChange={(e) => updateContact('name', e.target.value)}
+                  data-testid="input-lead-name"
+                />
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="lead-phone" className="block text-sm font-medium mb-2">{t('lead.phone')}</Label>
+                  <Input
+                    id="lead-phone"
+                    type="tel"
+                    autoComplete="tel"
+                    value={contact.phone ?? ''}
+                    onChange={(e) => updateContact('phone', e.target.value)}
+                    data-testid="input-lead-phone"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="lead-email" className="block text-sm font-medium mb-2">{t('lead.email')}</Label>
+                  <Input
+                    id="lead-email"
+                    type="email"
+                    autoComplete="email"
+                    value={contact.email ?? ''}
+                    onChange={(e) => updateContact('email', e.target.value)}
+                    data-testid="input-lead-email"
+                  />
+                </div>
+              </div>
+              <div>
+                <Label htmlFor="lead-address" className="block text-sm font-medium mb-2">{t('lead.address')}</Label>
+                <Input
+                  id="lead-address"
+                  autoComplete="street-address"
+                  value={contact.address ?? ''}
+                  onChange={(e) => updateContact('address', e.target.value)}
+                  data-testid="input-lead-address"
+                />
+              </div>
+              <div>
+                <Label className="block text-sm font-medium mb-2">{t('lead.contactTime')}</Label>
+                <Select
+                  value={contact.preferredContactTime}
+                  onValueChange={(value) => updateContact('preferredContactTime', value)}
+                >
+                  <SelectTrigger data-testid="select-contact-time">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {contactTimeSchema.options.map(value => (
+                      <SelectItem key={value} value={value}>{t(`contactTime.${value}`)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button onClick={submit} disabled={leadMutation.isPending} data-testid="button-submit-lead">
+                {t('lead.submit')}
+              </Button>
+            </DialogFooter>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,193 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { Card, CardContent } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig
+} from '@/components/ui/chart';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { apiRequest } from '@/lib/queryClient';
+import { useLocale } from '@/hooks/use-locale';
+import { MaterialComparisonRow, MaterialOption, MaterialType } from '@shared/roofing';
+import {
+  MAX_COMPARED_MATERIALS,
+  compareMaterialsSchema,
+  type ValidCalculatorFormData
+} from '@shared/schema';
+import { formatMaterialOption } from '@shared/i18n';
+
+// Midpoint price spread over the midpoint of the expected service life
+const costPerYear = ({ breakdown, lifespan: [low, high] }: MaterialComparisonRow) =>
+  breakdown.totalMid / ((low + high) / 2);
+
+interface MaterialComparisonProps {
+  formData: ValidCalculatorFormData;
+  materialOptions: MaterialOption[];
+}
+
+export default function MaterialComparison({ formData, materialOptions }: MaterialComparisonProps) {
+  const { locale, t, term, formatCurrency, errorMessage, validationMessage } = useLocale();
+  const chartConfig = {
+    low: { label: t('comparison.low'), color: 'var(--chart-2)' },
+    mid: { label: t('comparison.mid'), color: 'var(--chart-1)' },
+    high: { label: t('comparison.high'), color: 'var(--chart-3)' }
+  } satisfies ChartConfig;
+
+  const [enabled, setEnabled] = useState(false);
+  // Start with the estimated material and the next two on the list
+  const [selected, setSelected] = useState<MaterialType[]>(() => [
+    formData.material,
+    ...materialOptions
+      .map(option => option.value)
+      .filter(material => material !== formData.material)
+      .slice(0, 2)
+  ]);
+
+  const { material: _material, ...roof } = formData;
+  const parsed = compareMaterialsSchema.safeParse({ ...roof, materials: selected });
+
+  const { data: rows = [], isFetching, error } = useQuery<MaterialComparisonRow[], Error>({
+    queryKey: ['/api/estimates/compare', parsed.data],
+    queryFn: async () => {
+      const res = await apiRequest('POST', '/api/estimates/compare', parsed.data);
+      return await res.json();
+    },
+    enabled: enabled && parsed.success
+  });
+
+  const toggleMaterial = (material: MaterialType, checked: boolean) => {
+    setSelected(prev => (checked ? [...prev, material] : prev.filter(value => value !== material)));
+  };
+
+  const chartData = rows.map(row => ({
+    label: term(row.label),
+    low: row.breakdown.totalLow,
+    mid: row.breakdown.totalMid,
+    high: row.breakdown.totalHigh
+  }));
+
+  const cheapestPerYear = rows.length > 0 ? Math.min(...rows.map(costPerYear)) : 0;
+
+  return (
+    <Card className="shadow-lg" data-testid="card-material-comparison">
+      <CardContent className="p-6">
+        <div className="flex items-center justify-between mb-1">
+          <Label htmlFor="comparison-mode" className="text-2xl font-semibold text-card-foreground">
+            {t('comparison.title')}
+          </Label>
+          <Switch
+            id="comparison-mode"
+            checked={enabled}
+            onCheckedChange={setEnabled}
+            data-testid="switch-comparison"
+          />
+        </div>
+        <p className="text-sm text-muted-foreground mb-4">
+          {t('comparison.description', { max: MAX_COMPARED_MATERIALS })}
+        </p>
+
+        {enabled && (
+          <>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 mb-4">
+              {materialOptions.map(option => {
+                const checked = selected.includes(option.value);
+                return (
+                  <div key={option.value} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`compare-${option.value}`}
+                      checked={checked}
+                      disabled={!checked && selected.length >= MAX_COMPARED_MATERIALS}
+                      onCheckedChange={(value) => toggleMaterial(option.value, value === true)}
+                      data-testid={`checkbox-compare-${option.value}`}
+                    />
+                    <Label htmlFor={`compare-${option.value}`} className="text-sm cursor-pointer">
+                      {formatMaterialOption(locale, option)}
+                    </Label>
+                  </div>
+                );
+              })}
+            </div>
+
+            {!parsed.success && (
+              <p className="text-sm text-muted-foreground" data-testid="text-comparison-hint">
+                {validationMessage(parsed.error.issues[0].message)}
+              </p>
+            )}
+            {parsed.success && isFetching && (
+              <p className="text-sm text-muted-foreground" data-testid="text-comparison-loading">{t('comparison.loading')}</p>
+            )}
+            {parsed.success && error && (
+              <p className="text-sm text-destructive" data-testid="text-comparison-error">{errorMessage(error)}</p>
+            )}
+
+            {parsed.success && rows.length > 0 && !isFetching && (
+              <>
+                <Table className="mb-6" data-testid="table-comparison">
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{t('comparison.material')}</TableHead>
+                      <TableHead className="text-right">{t('comparison.low')}</TableHead>
+                      <TableHead className="text-right">{t('comparison.mid')}</TableHead>
+                      <TableHead className="text-right">{t('comparison.high')}</TableHead>
+                      <TableHead className="text-right">{t('comparison.lifespan')}</TableHead>
+                      <TableHead className="text-right">{t('comparison.perYear')}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rows.map(row => (
+                      <TableRow key={row.material} data-testid={`row-comparison-${row.material}`}>
+                        <TableCell className="font-medium">
+                          {term(row.label)}
+                          {row.material === formData.material && (
+                            <span className="block text-xs text-muted-foreground">{t('comparison.current')}</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">{formatCurrency(row.breakdown.totalLow)}</TableCell>
+                        <TableCell className="text-right font-medium">{formatCurrency(row.breakdown.totalMid)}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(row.breakdown.totalHigh)}</TableCell>
+                        <TableCell className="text-right whitespace-nowrap">
+                          {t('comparison.years', { min: row.lifespan[0], max: row.lifespan[1] })}
+                        </TableCell>
+                        <TableCell
+                          className={`text-right ${costPerYear(row) === cheapestPerYear ? 'font-bold text-primary' : ''}`}
+                        >
+                          {formatCurrency(costPerYear(row))}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+
+                <ChartContainer config={chartConfig} className="h-64 w-full" data-testid="chart-comparison">
+                  <BarChart data={chartData}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="label" tickLine={false} axisLine={false} interval={0} fontSize={11} />
+                    <YAxis tickFormatter={(value: number) => formatCurrency(value, { notation: 'compact' })} tickLine={false} axisLine={false} width={48} />
+                    <ChartTooltip
+                      content={<ChartTooltipContent formatter={(value, name) => `${chartConfig[name as keyof typeof chartConfig]?.label ?? name}: ${formatCurrency(Number(value))}`} />}
+                    />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    <Bar dataKey="low" fill="var(--color-low)" radius={2} />
+                    <Bar dataKey="mid" fill="var(--color-mid)" radius={2} />
+                    <Bar dataKey="high" fill="var(--color-high)" radius={2} />
+                  </BarChart>
+                </ChartContainer>
+                <p className="text-xs text-muted-foreground mt-2" data-testid="text-comparison-note">
+                  {t('comparison.note')}
+                </p>
+              </>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,91 @@
+import { MaterialType } from '@shared/roofing';
+
+type SwatchPattern = 'shingle' | 'tile' | 'seam' | 'sheet' | 'gravel';
+
+// Drawn rather than photographed so the widget ships without image assets
+const SWATCHES: Record<MaterialType, { pattern: SwatchPattern; base: string; line: string }> = {
+  asphalt: { pattern: 'shingle', base: '#4b5563', line: '#1f2937' },
+  clay: { pattern: 'tile', base: '#c2410c', line: '#7c2d12' },
+  metal: { pattern: 'seam', base: '#94a3b8', line: '#475569' },
+  wood: { pattern: 'shingle', base: '#a16207', line: '#713f12' },
+  slate: { pattern: 'shingle', base: '#475569', line: '#1e293b' },
+  membrane: { pattern: 'sheet', base: '#9ca3af', line: '#6b7280' },
+  tpo: { pattern: 'sheet', base: '#f3f4f6', line: '#d1d5db' },
+  pvc: { pattern: 'sheet', base: '#e5e7eb', line: '#9ca3af' },
+  epdm: { pattern: 'sheet', base: '#27272a', line: '#52525b' },
+  modified: { pattern: 'sheet', base: '#3f3f46', line: '#18181b' },
+  bur: { pattern: 'gravel', base: '#78716c', line: '#d6d3d1' }
+};
+
+const ROWS = [0, 1, 2, 3];
+
+function PatternLines({ pattern, line }: { pattern: SwatchPattern; line: string }) {
+  switch (pattern) {
+    case 'shingle':
+      return (
+        <>
+          {ROWS.map(row => (
+            <g key={row}>
+              <line x1="0" y1={row * 20 + 20} x2="120" y2={row * 20 + 20} stroke={line} strokeWidth="2" />
+              {[0, 1, 2, 3, 4].map(col => {
+                const x = col * 30 + (row % 2 === 0 ? 15 : 0);
+                return <line key={col} x1={x} y1={row * 20} x2={x} y2={row * 20 + 20} stroke={line} strokeWidth="2" />;
+              })}
+            </g>
+          ))}
+        </>
+      );
+    case 'tile':
+      return (
+        <>
+          {ROWS.map(row => [0, 1, 2, 3, 4, 5].map(col => (
+            <path
+              key={`${row}-${col}`}
+              d={`M${col * 20} ${row * 20 + 20} a10 10 0 0 1 20 0`}
+              fill="none"
+              stroke={line}
+              strokeWidth="2"
+            />
+          )))}
+        </>
+      );
+    case 'seam':
+      return (
+        <>
+          {[0, 1, 2, 3, 4, 5].map(col => (
+            <line key={col} x1={col * 20 + 10} y1="0" x2={col * 20 + 10} y2="80" stroke={line} strokeWidth="3" />
+          ))}
+        </>
+      );
+    case 'sheet':
+      return (
+        <>
+          <line x1="0" y1="38" x2="120" y2="38" stroke={line} strokeWidth="2" />
+          <line x1="0" y1="42" x2="120" y2="42" stroke={line} strokeWidth="1" />
+        </>
+      );
+    case 'gravel':
+      return (
+        <>
+          {Array.from({ length: 48 }, (_, i) => (
+            <circle key={i} cx={(i * 37) % 120 + 3} cy={(i * 23) % 80 + 3} r={1.5 + (i % 3) * 0.5} fill={line} />
+          ))}
+        </>
+      );
+  }
+}
+
+interface MaterialSwatchProps {
+  material: MaterialType;
+  className?: string;
+}
+
+export default function MaterialSwatch({ material, className }: MaterialSwatchProps) {
+  const { pattern, base, line } = SWATCHES[material];
+  return (
+    <svg viewBox="0 0 120 80" preserveAspectRatio="xMidYMid slice" className={className} aria-hidden="true">
+      <rect width="120" height="80" fill={base} />
+      <PatternLines pattern={pattern} line={line} />
+    </svg>
+  );
+}
@@ -0,0 +1,57 @@
+import { useQuery } from '@tanstack/react-query';
+import { RefreshCw } from 'lucide-react';
+import { formatCurrency } from '@shared/i18n';
+import type { EstimateRecalculation } from '@shared/schema';
+
+interface RecalculatePanelProps {
+  estimateId: string;
+}
+
+// Shows what the saved estimate would cost with the current price book, so
+// staff can tell when a quote was priced with older rates
+export default function RecalculatePanel({ estimateId }: RecalculatePanelProps) {
+  const { data: recalculation, error } = useQuery<EstimateRecalculation, Error>({
+    queryKey: ['/api/estimates', estimateId, 'recalculate']
+  });
+
+  if (error) {
+    return (
+      <p className="mb-6 text-sm text-destructive" data-testid="text-recalculate-error">
+        {error.message}
+      </p>
+    );
+  }
+  if (!recalculation) {
+    return null;
+  }
+
+  const { original, current, delta } = recalculation;
+  if (original.priceBookVersionId === current.priceBookVersionId) {
+    return (
+      <p className="mb-6 text-sm text-muted-foreground" data-testid="text-recalculate-current">
+        Priced with the current price book.
+      </p>
+    );
+  }
+
+  return (
+    <div className="mb-6 rounded-md border border-border p-4" data-testid="panel-recalculate">
+      <h3 className="flex items-center gap-2 text-lg font-medium text-card-foreground mb-2">
+        <RefreshCw className="w-4 h-4" />
+        Current Prices
+      </h3>
+      <p className="text-sm text-muted-foreground mb-3">
+        This estimate was priced with an earlier price book. It keeps those prices until its inputs change.
+      </p>
+      <div className="flex justify-between items-center text-sm" data-testid="text-recalculated-total">
+        <span className="text-muted-foreground">Midpoint at current prices:</span>
+        <span className="font-bold">
+          {formatCurrency(current.totalMid)}{' '}
+          <span className={delta.totalMid > 0 ? 'text-destructive' : 'text-primary'}>
+            ({formatCurrency(Math.round(delta.totalMid) || 0, 'en', { signDisplay: 'always' })})
+          </span>
+        </span>
+      </div>
+    </div>
+  );
+}
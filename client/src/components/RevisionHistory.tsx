@@ -0,0 +1,180 @@
+import { useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { History, RotateCcw } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { EstimateDelta } from '@shared/roofing';
+import { formatCurrency } from '@shared/i18n';
+import type { EstimateRevisionWithAuthor, EstimateWithCustomer, RevisionDiff } from '@shared/schema';
+
+// "|| 0" so a change that rounds to -0 still reads +$0
+const formatChange = (value: number) =>
+  formatCurrency(Math.round(value) || 0, 'en', { signDisplay: 'always' });
+
+function DeltaCell({ delta }: { delta: EstimateDelta | null }) {
+  if (!delta) {
+    return <TableCell className="text-right text-muted-foreground">With next change</TableCell>;
+  }
+  return (
+    <TableCell className={`text-right font-medium ${delta.totalMid > 0 ? 'text-destructive' : 'text-primary'}`}>
+      {formatChange(delta.totalMid)}
+    </TableCell>
+  );
+}
+
+function RevisionChanges({ estimateId, revisionId }: { estimateId: string; revisionId: string }) {
+  const { data: diff, isLoading, error } = useQuery<RevisionDiff, Error>({
+    queryKey: ['/api/estimates', estimateId, 'revisions', revisionId, 'diff']
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground py-2">Comparing revisions...</p>;
+  }
+  if (error || !diff) {
+    return <p className="text-sm text-destructive py-2">{error?.message}</p>;
+  }
+
+  const hasOther = Math.round(diff.otherDelta.totalMid) !== 0;
+
+  return (
+    <div className="py-2" data-testid={`diff-${revisionId}`}>
+      {diff.titleChanged && (
+        <p className="text-sm mb-2">
+          <span className="text-muted-foreground">Title:</span> {diff.from.title} → {diff.to.title}
+        </p>
+      )}
+      {diff.changes.length === 0 && !hasOther ? (
+        <p className="text-sm text-muted-foreground">No inputs changed.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Input</TableHead>
+              <TableHead>Before</TableHead>
+              <TableHead>After</TableHead>
+              <TableHead className="text-right">Midpoint</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {diff.changes.map(change => (
+              <TableRow key={change.field} data-testid={`diff-change-${change.field}`}>
+                <TableCell className="font-medium">{change.label}</TableCell>
+                <TableCell className="text-muted-foreground">{change.before}</TableCell>
+                <TableCell>{change.after}</TableCell>
+                <DeltaCell delta={change.delta} />
+              </TableRow>
+            ))}
+            {hasOther && (
+              <TableRow data-testid="diff-change-other">
+                <TableCell className="font-medium" colSpan={3}>Other pricing changes</TableCell>
+                <DeltaCell delta={diff.otherDelta} />
+              </TableRow>
+            )}
+            <TableRow>
+              <TableCell className="font-semibold" colSpan={3}>Total change</TableCell>
+              <TableCell className="text-right font-bold" data-testid="diff-total">
+                {formatChange(diff.delta.totalMid)}
+              </TableCell>
+            </TableRow>
+          </TableBody>
+        </Table>
+      )}
+      <p className="text-xs text-muted-foreground mt-2">
+        Each change is priced on top of the ones above it, so the effects add up to the total.
+      </p>
+    </div>
+  );
+}
+
+interface RevisionHistoryProps {
+  estimateId: string;
+}
+
+export default function RevisionHistory({ estimateId }: RevisionHistoryProps) {
+  const { toast } = useToast();
+  const [openId, setOpenId] = useState<string | null>(null);
+
+  const { data: revisions = [] } = useQuery<EstimateRevisionWithAuthor[]>({
+    queryKey: ['/api/estimates', estimateId, 'revisions']
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (revisionId: string) => {
+      const res = await apiRequest('POST', `/api/estimates/${estimateId}/revisions/${revisionId}/restore`);
+      return (await res.json()) as EstimateWithCustomer;
+    },
+    onSuccess: (restored) => {
+      // Replaces the cached estimate so the calculator reloads the restored inputs
+      queryClient.setQueryData(['/api/estimates', estimateId], restored);
+      queryClient.invalidateQueries({ queryKey: ['/api/estimates', estimateId, 'revisions'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/estimates'], exact: true });
+      setOpenId(null);
+      toast({ title: "Revision Restored", description: restored.title });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Restore Failed", description: error.message, variant: "destructive" });
+    }
+  });
+
+  if (revisions.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="shadow-lg" data-testid="card-revisions">
+      <CardContent className="p-6">
+        <h2 className="text-2xl font-semibold mb-4 text-card-foreground flex items-center">
+          <History className="w-5 h-5 mr-2" />
+          Revision History
+        </h2>
+        <div className="space-y-2">
+          {revisions.map((revision, index) => (
+            <div key={revision.id} className="border-b border-border pb-2 last:border-b-0" data-testid={`revision-${revision.number}`}>
+              <div className="flex items-start justify-between gap-2">
+                <button
+                  type="button"
+                  className="text-left min-w-0 disabled:cursor-default"
+                  onClick={() => setOpenId(openId === revision.id ? null : revision.id)}
+                  disabled={revision.number === 1}
+                  data-testid={`button-revision-${revision.number}`}
+                >
+                  <div className="font-medium">
+                    Revision {revision.number}
+                    {index === 0 && <Badge variant="outline" className="ml-2">Current</Badge>}
+                  </div>
+                  <div className="text-sm text-muted-foreground">
+                    {format(new Date(revision.createdAt), 'PPp')}
+                    {revision.author && ` · ${revision.author}`}
+                    {` · ${formatCurrency(revision.breakdown.totalMid)}`}
+                  </div>
+                  {revision.note && <div className="text-sm italic text-muted-foreground">{revision.note}</div>}
+                </button>
+                {index > 0 && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => restoreMutation.mutate(revision.id)}
+                    disabled={restoreMutation.isPending}
+                    data-testid={`button-restore-revision-${revision.number}`}
+                  >
+                    <RotateCcw className="w-4 h-4 mr-1" />
+                    Restore
+                  </Button>
+                )}
+              </div>
+              {openId === revision.id && <RevisionChanges estimateId={estimateId} revisionId={revision.id} />}
+            </div>
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground mt-3">
+          Select a revision to see what changed since the one before it.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,161 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Trash2 } from 'lucide-react';
+import { useLocale } from '@/hooks/use-locale';
+import { FacetMeasurement, FacetType, PitchType, RoofFacet } from '@shared/roofing';
+import {
+  degreesFromRise,
+  MAX_PITCH_RISE,
+  pitchPresets,
+  riseFromDegrees,
+  slopeFactor
+} from '@shared/roofing-calculations';
+
+const FACET_TYPES: FacetType[] = ['gable', 'hip', 'shed', 'flat'];
+
+export const emptyFacet = (): RoofFacet => ({ type: 'gable', length: 0, width: 0, pitchRise: 0 });
+
+interface RoofFacetFieldsProps {
+  index: number;
+  facet: RoofFacet;
+  measurement?: FacetMeasurement;
+  canRemove: boolean;
+  onChange: (facet: RoofFacet) => void;
+  onRemove: () => void;
+}
+
+export default function RoofFacetFields({ index, facet, measurement, canRemove, onChange, onRemove }: RoofFacetFieldsProps) {
+  const { t } = useLocale();
+  const update = (changes: Partial<RoofFacet>) => onChange({ ...facet, ...changes });
+
+  const setPitchRise = (rise: number) => {
+    const clampedRise = Math.min(Math.max(rise, 0), MAX_PITCH_RISE);
+    update({ pitchRise: Math.round(clampedRise * 100) / 100 });
+  };
+
+  // Highlight the matching shortcut, if any, for the entered pitch
+  const pitchPreset = (Object.keys(pitchPresets) as PitchType[])
+    .find(preset => pitchPresets[preset] === facet.pitchRise) ?? '';
+
+  return (
+    <div className="border border-border rounded-md p-3 space-y-3" data-testid={`facet-${index}`}>
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium" data-testid={`title-facet-${index}`}>
+          {t('facet.title', { number: index + 1 })}
+        </span>
+        {canRemove && (
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={onRemove}
+            aria-label={t('facet.remove', { number: index + 1 })}
+            data-testid={`button-remove-facet-${index}`}
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-3 gap-3">
+        <div>
+          <Label className="block text-xs text-muted-foreground mb-1">{t('facet.shape')}</Label>
+          <Select value={facet.type} onValueChange={(value: FacetType) => update({ type: value })}>
+            <SelectTrigger data-testid={`select-facet-type-${index}`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {FACET_TYPES.map(type => (
+                <SelectItem key={type} value={type} data-testid={`option-facet-type-${type}`}>
+                  {t(`facetType.${type}`)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor={`facet-length-${index}`} className="block text-xs text-muted-foreground mb-1">
+            {t('facet.length')}
+          </Label>
+          <Input
+            id={`facet-length-${index}`}
+            type="number"
+            min="0"
+            value={facet.length || ''}
+            onChange={(e) => update({ length: parseFloat(e.target.value) || 0 })}
+            data-testid={`input-facet-length-${index}`}
+          />
+        </div>
+        <div>
+          <Label htmlFor={`facet-width-${index}`} className="block text-xs text-muted-foreground mb-1">
+            {t('facet.width')}
+          </Label>
+          <Input
+            id={`facet-width-${index}`}
+            type="number"
+            min="0"
+            value={facet.width || ''}
+            onChange={(e) => update({ width: parseFloat(e.target.value) || 0 })}
+            data-testid={`input-facet-width-${index}`}
+          />
+        </div>
+      </div>
+
+      {facet.type !== 'flat' && (
+        <div>
+          <Label className="block text-xs text-muted-foreground mb-1" data-testid={`label-pitch-${index}`}>
+            {t('facet.pitch')}
+          </Label>
+          <div className="grid grid-cols-3 gap-3">
+            <Select
+              value={pitchPreset}
+              onValueChange={(value: PitchType) => setPitchRise(pitchPresets[value])}
+            >
+              <SelectTrigger data-testid={`select-pitch-${index}`}>
+                <SelectValue placeholder={t('facet.pitchCustom')} />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="flat" data-testid="option-pitch-flat">{t('pitch.flat')}</SelectItem>
+                <SelectItem value="low" data-testid="option-pitch-low">{t('pitch.low')}</SelectItem>
+                <SelectItem value="medium" data-testid="option-pitch-medium">{t('pitch.medium')}</SelectItem>
+                <SelectItem value="steep" data-testid="option-pitch-steep">{t('pitch.steep')}</SelectItem>
+              </SelectContent>
+            </Select>
+            <Input
+              type="number"
+              min="0"
+              max={MAX_PITCH_RISE}
+              step="0.5"
+              value={facet.pitchRise || ''}
+              onChange={(e) => setPitchRise(parseFloat(e.target.value) || 0)}
+              placeholder={t('facet.risePlaceholder')}
+              aria-label={t('facet.riseLabel')}
+              data-testid={`input-pitch-rise-${index}`}
+            />
+            <Input
+              type="number"
+              min="0"
+              max="63"
+              step="0.1"
+              value={facet.pitchRise ? Math.round(degreesFromRise(facet.pitchRise) * 10) / 10 : ''}
+              onChange={(e) => setPitchRise(riseFromDegrees(parseFloat(e.target.value) || 0))}
+              placeholder={t('facet.degreesPlaceholder')}
+              aria-label={t('facet.degreesLabel')}
+              data-testid={`input-pitch-degrees-${index}`}
+            />
+          </div>
+          <p className="text-xs text-muted-foreground mt-1" data-testid={`text-slope-factor-${index}`}>
+            {t('facet.slopeFactor', { factor: slopeFactor(facet.pitchRise).toFixed(3) })}
+          </p>
+        </div>
+      )}
+
+      {measurement && measurement.slopedArea > 0 && (
+        <p className="text-xs text-muted-foreground" data-testid={`text-facet-area-${index}`}>
+          {t('facet.area', { area: Math.round(measurement.slopedArea) })}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+import { Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RoofFacet, RoofSizeEstimate, RoofSizeHelperData } from '@shared/roofing';
+import { measureRoof } from '@shared/roofing-calculations';
+import RoofFacetFields, { emptyFacet } from '@/components/RoofFacetFields';
+import { useLocale } from '@/hooks/use-locale';
+
+interface RoofSizeHelperProps {
+  helper: RoofSizeHelperData;
+  onChange: (helper: RoofSizeHelperData) => void;
+  estimate: RoofSizeEstimate | null; // from the last Calculate Roof Size
+  materialSelected: boolean;
+  onCalculate: () => void;
+}
+
+// Measures the roof section by section; used by both the pro form and the wizard
+export default function RoofSizeHelper({ helper, onChange, estimate, materialSelected, onCalculate }: RoofSizeHelperProps) {
+  const measurement = measureRoof(helper);
+  const { t, formatNumber } = useLocale();
+
+  const updateFacet = (index: number, facet: RoofFacet) => {
+    onChange({ ...helper, facets: helper.facets.map((existing, i) => (i === index ? facet : existing)) });
+  };
+
+  const addFacet = () => {
+    onChange({ ...helper, facets: [...helper.facets, emptyFacet()] });
+  };
+
+  const removeFacet = (index: number) => {
+    onChange({ ...helper, facets: helper.facets.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground" data-testid="text-facets-hint">
+        {t('sizeHelper.facetsHint')}
+      </p>
+      {helper.facets.map((facet, index) => (
+        <RoofFacetFields
+          key={index}
+          index={index}
+          facet={facet}
+          measurement={measurement.facets[index]}
+          canRemove={helper.facets.length > 1}
+          onChange={(updated) => updateFacet(index, updated)}
+          onRemove={() => removeFacet(index)}
+        />
+      ))}
+      <Button
+        type="button"
+        onClick={addFacet}
+        variant="outline"
+        className="w-full"
+        data-testid="button-add-facet"
+      >
+        <Plus className="w-4 h-4 mr-2" />
+        {t('sizeHelper.addSection')}
+      </Button>
+      <div>
+        <Label htmlFor="overhang" className="block text-sm font-medium mb-2" data-testid="label-overhang">
+          {t('sizeHelper.overhang')}
+        </Label>
+        <Input
+          id="overhang"
+          type="number"
+          min="0"
+          value={helper.overhang || ''}
+          onChange={(e) => onChange({ ...helper, overhang: parseFloat(e.target.value) || 0 })}
+          placeholder={t('sizeHelper.overhangPlaceholder')}
+          data-testid="input-overhang"
+        />
+        <p className="text-xs text-muted-foreground mt-1" data-testid="text-overhang-hint">
+          {t('sizeHelper.overhangHint')}
+        </p>
+      </div>
+      <div>
+        <Label htmlFor="valleys" className="block text-sm font-medium mb-2" data-testid="label-valleys">
+          {t('sizeHelper.valleys')}
+        </Label>
+        <Input
+          id="valleys"
+          type="number"
+          min="0"
+          step="1"
+          value={helper.valleys || ''}
+          onChange={(e) => onChange({ ...helper, valleys: Math.max(parseInt(e.target.value, 10) || 0, 0) })}
+          placeholder={t('sizeHelper.valleysPlaceholder')}
+          data-testid="input-valleys"
+        />
+        <p className="text-xs text-muted-foreground mt-1" data-testid="text-valleys-hint">
+          {t('sizeHelper.valleysHint')}
+        </p>
+      </div>
+      <Button
+        type="button"
+        onClick={onCalculate}
+        variant="secondary"
+        className="w-full"
+        data-testid="button-calculate-roof-size"
+      >
+        {t('sizeHelper.calculate')}
+      </Button>
+      {estimate && estimate.totalArea > 0 && (
+        <div className="space-y-1 text-sm" data-testid="roof-size-summary">
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">{t('sizeHelper.measuredArea')}</span>
+            <span data-testid="text-measured-area">
+              {t('units.sqFt', { value: Math.round(estimate.measuredArea) })}
+            </span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">
+              {t('sizeHelper.waste', {
+                percent: formatNumber(estimate.wasteFactor * 100, { minimumFractionDigits: 1, maximumFractionDigits: 1 })
+              })}
+            </span>
+            <span data-testid="text-waste-area">
+              {t('units.sqFt', { value: Math.round(estimate.wasteArea) })}
+            </span>
+          </div>
+          <div className="flex justify-between font-medium text-primary pt-1 border-t border-border" data-testid="text-calculated-size">
+            <span>{t('sizeHelper.estimatedSize')}</span>
+            <span>{t('units.sqFt', { value: estimate.totalArea })}</span>
+          </div>
+          {!materialSelected && (
+            <p className="text-xs text-muted-foreground" data-testid="text-waste-hint">
+              {t('sizeHelper.wasteHint')}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
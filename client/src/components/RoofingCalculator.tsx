@@ -1,534 +1,689 @@
 import { useState, useEffect } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useLocation, useSearch } from 'wouter';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Separator } from '@/components/ui/separator';
-import { ExternalLink, Home, Calculator } from 'lucide-react';
-import { PieChart, Pie, Cell, ResponsiveContainer, Legend, Tooltip } from 'recharts';
+import { Home, Calculator, FileText, ListChecks, SlidersHorizontal } from 'lucide-react';
 import { 
   CalculatorFormData, 
   RoofSizeHelperData, 
-  CostBreakdown, 
+  PricedCostBreakdown, 
   RoofingType, 
   MaterialType,
   JobType,
   ComplexityType,
-  PitchType
-} from '@/types/roofing';
+  RoofSizeEstimate
+} from '@shared/roofing';
 import { 
-  calculateRoofingCost, 
   calculateRoofSize, 
-  getMaterialOptions 
-} from '@/lib/roofing-calculations';
+  getMaterialOptions,
+  measureRoof
+} from '@shared/roofing-calculations';
+import {
+  calculatorFormSchema,
+  MAX_ROOF_SIZE,
+  type EstimateWithCustomer,
+  type PriceBookSnapshot,
+  type ValidCalculatorFormData
+} from '@shared/schema';
+import { BASE_COST_INDEX } from '@shared/regional-pricing';
+import { hasPermission } from '@shared/permissions';
+import { COMPANY, estimateDisclaimer } from '@shared/company';
+import { formatMaterialOption } from '@shared/i18n';
+import { apiRequest } from '@/lib/queryClient';
+import { postEmbedEvent } from '@/lib/embed-events';
+import { decodeCalculatorState, DEFAULT_FORM_DATA, encodeCalculatorState } from '@/lib/calculator-url';
 import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
+import { useLocale } from '@/hooks/use-locale';
+import { emptyFacet } from '@/components/RoofFacetFields';
+import RoofSizeHelper from '@/components/RoofSizeHelper';
+import CalculatorWizard from '@/components/CalculatorWizard';
+import EstimateResults from '@/components/EstimateResults';
+import SimulationRange from '@/components/SimulationRange';
+import MaterialComparison from '@/components/MaterialComparison';
+import SaveEstimateDialog from '@/components/SaveEstimateDialog';
+import DiscountPanel from '@/components/DiscountPanel';
+import ShareLinksPanel from '@/components/ShareLinksPanel';
+import TiersPanel from '@/components/TiersPanel';
+import RevisionHistory from '@/components/RevisionHistory';
+import RecalculatePanel from '@/components/RecalculatePanel';
+import LeadFormDialog from '@/components/LeadFormDialog';
+import LanguageSwitcher from '@/components/LanguageSwitcher';
 
-const CHART_COLORS = ['#3b82f6', '#10b981', '#f59e0b']; // Blue, Green, Amber
+type CalculatorMode = 'wizard' | 'pro';
 
-export default function RoofingCalculator() {
+interface RoofingCalculatorProps {
+  estimateId?: string;
+  embedded?: boolean; // framed on another site, so sized to its content rather than the window
+}
+
+export default function RoofingCalculator({ estimateId, embedded = false }: RoofingCalculatorProps) {
   const { toast } = useToast();
-  
-  const [formData, setFormData] = useState<CalculatorFormData>({
-    roofingType: 'residential',
-    roofSize: 0,
-    material: '',
-    jobType: 'new',
-    complexity: 'simple',
-    tearoff: false,
-    permits: false
+  const [location, setLocation] = useLocation();
+  const search = useSearch();
+  const { user } = useAuth();
+  const { locale, t, term, errorMessage } = useLocale();
+
+  // The standalone calculator keeps its inputs in the query string so a
+  // configuration can be bookmarked or linked to
+  const syncUrl = !estimateId && !embedded;
+  const [linkedState] = useState(() => (syncUrl ? decodeCalculatorState(search) : null));
+  const [linkedEstimate] = useState(() => {
+    const parsed = linkedState && calculatorFormSchema.safeParse({ ...DEFAULT_FORM_DATA, ...linkedState.formData });
+    return parsed?.success ? parsed.data : null;
   });
 
-  const [roofSizeHelper, setRoofSizeHelper] = useState<RoofSizeHelperData>({
-    footprint: 0,
-    overhang: 0,
-    pitch: 'flat'
+  // Homeowners get the guided wizard and staff the full form, unless they pick the other
+  const [chosenMode, setChosenMode] = useState<CalculatorMode | null>(null);
+  const mode = chosenMode ?? (estimateId || hasPermission(user, 'estimates:edit') ? 'pro' : 'wizard');
+
+  // Validated with the same schema as the server; errors show under each field
+  const form = useForm<CalculatorFormData, unknown, ValidCalculatorFormData>({
+    resolver: zodResolver(calculatorFormSchema),
+    defaultValues: { ...DEFAULT_FORM_DATA, ...linkedState?.formData },
+    mode: 'onChange'
   });
+  const formData = form.watch();
+
+  const [roofSizeHelper, setRoofSizeHelper] = useState<RoofSizeHelperData>(() => ({
+    facets: [emptyFacet()],
+    overhang: 0,
+    valleys: 0,
+    ...linkedState?.roofSizeHelper
+  }));
 
-  const [results, setResults] = useState<CostBreakdown | null>(null);
+  const [results, setResults] = useState<PricedCostBreakdown | null>(null);
   const [showResults, setShowResults] = useState(false);
-  const [calculatedRoofSize, setCalculatedRoofSize] = useState<number | null>(null);
+  const [calculatedRoofSize, setCalculatedRoofSize] = useState<RoofSizeEstimate | null>(null);
 
-  // Get material options based on roofing type
-  const materialOptions = getMaterialOptions(formData.roofingType);
+  // Get material options based on roofing type from the price book
+  const { data: priceBook, isLoading: isPriceBookLoading } = useQuery<PriceBookSnapshot>({
+    queryKey: ['/api/pricebook']
+  });
+  const materialOptions = getMaterialOptions(formData.roofingType, priceBook?.entries ?? []);
+
+  // Load a saved estimate with the breakdown it was quoted at
+  const { data: savedEstimate } = useQuery<EstimateWithCustomer>({
+    queryKey: ['/api/estimates', estimateId],
+    enabled: !!estimateId
+  });
 
-  // Reset material selection when roofing type changes
   useEffect(() => {
-    setFormData(prev => ({ ...prev, material: '' }));
-  }, [formData.roofingType]);
+    if (!savedEstimate) {
+      return;
+    }
+    form.reset(savedEstimate.formData);
+    setResults({ ...savedEstimate.breakdown, priceBookVersionId: savedEstimate.priceBookVersionId });
+    setShowResults(true);
+    // Only reload when the saved inputs change, not for discount updates
+  }, [savedEstimate?.formData, savedEstimate?.breakdown]);
 
+  // Reset material selection when roofing type changes
   const handleRoofingTypeChange = (type: RoofingType) => {
-    setFormData(prev => ({ ...prev, roofingType: type }));
-  };
-
-  const handleInputChange = (field: keyof CalculatorFormData, value: any) => {
-    setFormData(prev => ({ ...prev, [field]: value }));
+    if (form.getValues('roofingType') !== type) {
+      form.setValue('roofingType', type);
+      form.setValue('material', '');
+    }
   };
 
-  const handleRoofSizeChange = (value: string) => {
-    const numValue = parseFloat(value) || 0;
-    if (numValue < 0) {
+  // Estimates are priced on the server so the numbers can't be altered in the browser
+  const estimateMutation = useMutation({
+    mutationFn: async (data: ValidCalculatorFormData) => {
+      const res = await apiRequest('POST', '/api/estimates/calculate', data);
+      return (await res.json()) as PricedCostBreakdown;
+    },
+    onSuccess: (costBreakdown, data) => {
+      setResults(costBreakdown);
+      setShowResults(true);
+      const { totalLow, totalMid, totalHigh, region } = costBreakdown;
+      postEmbedEvent({ type: 'estimate:calculated', formData: data, totalLow, totalMid, totalHigh, region });
+    },
+    onError: (error: Error) => {
       toast({
-        title: "Invalid Input",
-        description: "Please enter a positive number",
+        title: t('calculator.estimateFailed'),
+        description: errorMessage(error),
         variant: "destructive"
       });
-      return;
     }
-    if (numValue > 50000) {
-      toast({
-        title: "Input Too Large",
-        description: "Maximum roof size is 50,000 sq ft",
-        variant: "destructive"
-      });
-      setFormData(prev => ({ ...prev, roofSize: 50000 }));
-      return;
+  });
+
+  const calculateCost = form.handleSubmit((data) => estimateMutation.mutate(data));
+
+  // The wizard's last step, which only moves on to the results once they're in
+  const calculateForWizard = async () => {
+    const parsed = calculatorFormSchema.safeParse(form.getValues());
+    if (!parsed.success) {
+      await form.trigger();
+      return false;
+    }
+    try {
+      await estimateMutation.mutateAsync(parsed.data);
+      return true;
+    } catch {
+      return false; // already reported by onError
     }
-    setFormData(prev => ({ ...prev, roofSize: numValue }));
   };
 
-  const calculateCost = () => {
-    if (!formData.roofSize || !formData.material) {
-      toast({
-        title: "Missing Information",
-        description: "Please fill in roof size and select a material",
-        variant: "destructive"
-      });
-      return;
+  // A link with every required input shows its estimate straight away
+  useEffect(() => {
+    if (linkedEstimate) {
+      estimateMutation.mutate(linkedEstimate);
     }
+  }, []);
 
-    const costBreakdown = calculateRoofingCost(formData);
-    if (costBreakdown) {
-      setResults(costBreakdown);
-      setShowResults(true);
+  useEffect(() => {
+    if (!syncUrl) {
+      return;
     }
-  };
+    const query = encodeCalculatorState(formData, roofSizeHelper);
+    if (query !== search) {
+      setLocation(query ? `${location}?${query}` : location, { replace: true });
+    }
+  }, [formData, roofSizeHelper]);
 
   const resetForm = () => {
-    setFormData({
-      roofingType: 'residential',
-      roofSize: 0,
-      material: '',
-      jobType: 'new',
-      complexity: 'simple',
-      tearoff: false,
-      permits: false
-    });
+    form.reset(DEFAULT_FORM_DATA);
     setRoofSizeHelper({
-      footprint: 0,
+      facets: [emptyFacet()],
       overhang: 0,
-      pitch: 'flat'
+      valleys: 0
     });
     setResults(null);
     setShowResults(false);
     setCalculatedRoofSize(null);
   };
 
+  const roofMeasurement = measureRoof(roofSizeHelper);
+
+  // The inputs behind the breakdown currently shown
+  const pricedFormData = estimateMutation.variables ?? savedEstimate?.formData;
+
+  const handleEstimateSaved = (estimate: EstimateWithCustomer) => {
+    if (estimate.id !== estimateId) {
+      setLocation(`/estimates/${estimate.id}`);
+    }
+  };
+
   const calculateRoofSizeHelper = () => {
-    if (!roofSizeHelper.footprint) {
+    if (roofMeasurement.slopedArea <= 0) {
       toast({
-        title: "Missing Information",
-        description: "Please enter the home footprint",
+        title: t('calculator.missingInformation'),
+        description: t('calculator.missingSection'),
         variant: "destructive"
       });
       return;
     }
 
-    const calculatedSize = calculateRoofSize(roofSizeHelper);
+    // Waste depends on the material and complexity chosen in the form
+    const calculatedSize = calculateRoofSize(roofSizeHelper, formData);
     setCalculatedRoofSize(calculatedSize);
-    setFormData(prev => ({ ...prev, roofSize: calculatedSize }));
+    const { eaveLength, rakeLength, ridgeLength, hipLength } = roofMeasurement;
+    form.setValue('roofSize', calculatedSize.totalArea, { shouldValidate: true });
+    form.setValue('edges', { eaveLength, rakeLength, ridgeLength, hipLength });
   };
 
-  // Prepare chart data
-  const chartData = results ? [
-    { name: 'Materials', value: results.materials, color: CHART_COLORS[0] },
-    { name: 'Labor', value: results.labor, color: CHART_COLORS[1] },
-    { name: 'Add-ons', value: results.addons, color: CHART_COLORS[2] }
-  ].filter(item => item.value > 0) : [];
+  const sizeHelper = (
+    <RoofSizeHelper
+      helper={roofSizeHelper}
+      onChange={setRoofSizeHelper}
+      estimate={calculatedRoofSize}
+      materialSelected={!!formData.material}
+      onCalculate={calculateRoofSizeHelper}
+    />
+  );
+
+  const disclaimer = (
+    <Card className="bg-muted border-border">
+      <CardContent className="p-4">
+        <p className="text-sm text-muted-foreground" data-testid="text-disclaimer">
+          <strong>{t('disclaimer.label')}</strong> {estimateDisclaimer(results?.region ?? BASE_COST_INDEX.region, locale)}{' '}
+          {t('disclaimer.firmQuote')}{' '}
+          <a
+            href={COMPANY.contactUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-primary hover:underline"
+            data-testid="link-contact"
+          >
+            {COMPANY.name}
+          </a>.
+        </p>
+      </CardContent>
+    </Card>
+  );
 
   return (
-    <div className="container mx-auto px-4 py-8 max-w-4xl bg-background min-h-screen">
+    <div className={`container mx-auto px-4 py-8 max-w-4xl bg-background ${embedded ? '' : 'min-h-screen'}`}>
       <header className="text-center mb-8">
         <h1 className="text-4xl font-bold text-primary mb-2" data-testid="title-calculator">
-          Roofing Cost Calculator
+          {t('calculator.title')}
         </h1>
         <p className="text-muted-foreground text-lg" data-testid="text-subtitle">
-          Get an instant estimate for your roofing project in Torrance, CA
+          {t('calculator.subtitle', { serviceArea: term(COMPANY.serviceArea) })}
         </p>
+        <div className="flex flex-wrap items-center justify-center gap-3 mt-4">
+          <div className="inline-flex rounded-md border border-border p-1" role="group" aria-label={t('calculator.mode')}>
+            <Button
+              type="button"
+              size="sm"
+              variant={mode === 'wizard' ? 'default' : 'ghost'}
+              aria-pressed={mode === 'wizard'}
+              onClick={() => setChosenMode('wizard')}
+              data-testid="button-mode-wizard"
+            >
+              <ListChecks className="w-4 h-4 mr-2" />
+              {t('calculator.modeWizard')}
+            </Button>
+            <Button
+              type="button"
+              size="sm"
+              variant={mode === 'pro' ? 'default' : 'ghost'}
+              aria-pressed={mode === 'pro'}
+              onClick={() => setChosenMode('pro')}
+              data-testid="button-mode-pro"
+            >
+              <SlidersHorizontal className="w-4 h-4 mr-2" />
+              {t('calculator.modePro')}
+            </Button>
+          </div>
+          <LanguageSwitcher />
+        </div>
       </header>
 
-      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
-        {/* Calculator Form */}
-        <Card className="shadow-lg">
-          <CardContent className="p-6">
-            <h2 className="text-2xl font-semibold mb-6 text-card-foreground" data-testid="title-project-details">
-              Project Details
-            </h2>
-            
-            {/* Roofing Type Selection */}
-            <div className="mb-6">
-              <Label className="block text-sm font-medium mb-3" data-testid="label-roofing-type">
-                Roofing Type
-              </Label>
-              <div className="grid grid-cols-2 gap-3">
-                <Button
-                  variant={formData.roofingType === 'residential' ? 'default' : 'outline'}
-                  className={`toggle-button ${formData.roofingType === 'residential' ? 'active' : ''}`}
-                  onClick={() => handleRoofingTypeChange('residential')}
-                  data-testid="button-residential"
-                >
-                  Residential
-                </Button>
-                <Button
-                  variant={formData.roofingType === 'commercial' ? 'default' : 'outline'}
-                  className={`toggle-button ${formData.roofingType === 'commercial' ? 'active' : ''}`}
-                  onClick={() => handleRoofingTypeChange('commercial')}
-                  data-testid="button-commercial"
+      {mode === 'wizard' ? (
+        <div className="max-w-2xl mx-auto space-y-6">
+          <CalculatorWizard
+            form={form}
+            materialOptions={materialOptions}
+            isPriceBookLoading={isPriceBookLoading}
+            onRoofingTypeChange={handleRoofingTypeChange}
+            sizeHelper={sizeHelper}
+            onCalculate={calculateForWizard}
+            calculating={estimateMutation.isPending}
+            startAtResults={!!linkedEstimate || showResults}
+            onStartOver={resetForm}
+            results={showResults && results && (
+              <div className="space-y-6">
+                <EstimateResults
+                  results={results}
+                  measuredEdges={!!formData.edges}
+                  showTakeoff={false}
+                  insights={pricedFormData && <SimulationRange formData={pricedFormData} />}
                 >
-                  Commercial
-                </Button>
-              </div>
-            </div>
-
-            {/* Roof Size Input */}
-            <div className="mb-6">
-              <Label htmlFor="roof-size" className="block text-sm font-medium mb-2" data-testid="label-roof-size">
-                Roof Size (Square Feet)
-              </Label>
-              <Input
-                id="roof-size"
-                type="number"
-                min="1"
-                max="50000"
-                value={formData.roofSize || ''}
-                onChange={(e) => handleRoofSizeChange(e.target.value)}
-                placeholder="Enter roof size"
-                className="w-full"
-                data-testid="input-roof-size"
-              />
-              <p className="text-xs text-muted-foreground mt-1" data-testid="text-roof-size-hint">
-                Maximum 50,000 sq ft
-              </p>
-            </div>
-
-            {/* Material Selection */}
-            <div className="mb-6">
-              <Label className="block text-sm font-medium mb-2" data-testid="label-material">
-                Roofing Material
-              </Label>
-              <Select 
-                value={formData.material} 
-                onValueChange={(value: MaterialType) => handleInputChange('material', value)}
-              >
-                <SelectTrigger data-testid="select-material">
-                  <SelectValue placeholder="Select a material" />
-                </SelectTrigger>
-                <SelectContent>
-                  {materialOptions.map((option) => (
-                    <SelectItem key={option.value} value={option.value} data-testid={`option-material-${option.value}`}>
-                      {option.label}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-            </div>
-
-            {/* Job Type */}
-            <div className="mb-6">
-              <Label className="block text-sm font-medium mb-2" data-testid="label-job-type">
-                Job Type
-              </Label>
-              <Select 
-                value={formData.jobType} 
-                onValueChange={(value: JobType) => handleInputChange('jobType', value)}
-              >
-                <SelectTrigger data-testid="select-job-type">
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="new" data-testid="option-job-new">New Installation</SelectItem>
-                  <SelectItem value="replacement" data-testid="option-job-replacement">Full Replacement</SelectItem>
-                  <SelectItem value="repair" data-testid="option-job-repair">Repair/Partial</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
-
-            {/* Roof Complexity */}
-            <div className="mb-6">
-              <Label className="block text-sm font-medium mb-2" data-testid="label-complexity">
-                Roof Complexity
-              </Label>
-              <Select 
-                value={formData.complexity} 
-                onValueChange={(value: ComplexityType) => handleInputChange('complexity', value)}
-              >
-                <SelectTrigger data-testid="select-complexity">
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="simple" data-testid="option-complexity-simple">Simple/Low Pitch (+0%)</SelectItem>
-                  <SelectItem value="medium" data-testid="option-complexity-medium">Medium/Standard (+20%)</SelectItem>
-                  <SelectItem value="complex" data-testid="option-complexity-complex">Complex/Steep Pitch & Multi-Level (+40%)</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
-
-            {/* Add-ons */}
-            <div className="mb-6">
-              <Label className="block text-sm font-medium mb-3" data-testid="label-addons">
-                Add-ons
-              </Label>
-              <div className="space-y-3">
-                <div className="flex items-center space-x-3">
-                  <Checkbox
-                    id="tearoff"
-                    checked={formData.tearoff}
-                    onCheckedChange={(checked) => handleInputChange('tearoff', checked)}
-                    data-testid="checkbox-tearoff"
-                  />
-                  <Label htmlFor="tearoff" className="text-sm cursor-pointer" data-testid="label-tearoff">
-                    Tear-off of Old Roof (+$1-$2/sq ft)
-                  </Label>
-                </div>
-                <div className="flex items-center space-x-3">
-                  <Checkbox
-                    id="permits"
-                    checked={formData.permits}
-                    onCheckedChange={(checked) => handleInputChange('permits', checked)}
-                    data-testid="checkbox-permits"
+                  {pricedFormData && <LeadFormDialog formData={pricedFormData} />}
+                </EstimateResults>
+                {pricedFormData && (
+                  <MaterialComparison
+                    key={pricedFormData.roofingType}
+                    formData={pricedFormData}
+                    materialOptions={getMaterialOptions(pricedFormData.roofingType, priceBook?.entries ?? [])}
                   />
-                  <Label htmlFor="permits" className="text-sm cursor-pointer" data-testid="label-permits">
-                    Building Permits (+$400-$600)
-                  </Label>
-                </div>
+                )}
               </div>
-            </div>
-
-            {/* Action Buttons */}
-            <div className="space-y-3">
-              <Button 
-                onClick={calculateCost} 
-                className="w-full" 
-                size="lg"
-                data-testid="button-calculate"
-              >
-                <Calculator className="w-4 h-4 mr-2" />
-                Get Estimate
-              </Button>
-              <Button 
-                onClick={resetForm} 
-                variant="secondary" 
-                className="w-full" 
-                size="lg"
-                data-testid="button-reset"
-              >
-                Reset
-              </Button>
-            </div>
-          </CardContent>
-        </Card>
-
-        {/* Results and Helper Tools */}
-        <div className="space-y-6">
-          {/* Results Card */}
-          {showResults && results && (
-            <Card className={`shadow-lg ${showResults ? 'fade-in' : ''}`} data-testid="card-results">
-              <CardContent className="p-6">
-                <h2 className="text-2xl font-semibold mb-6 text-card-foreground" data-testid="title-cost-estimate">
-                  Cost Estimate
-                </h2>
-                
-                {/* Cost Breakdown */}
-                <div className="space-y-4 mb-6">
-                  <div className="flex justify-between items-center py-2 border-b border-border">
-                    <span className="text-muted-foreground" data-testid="label-materials-cost">Materials Cost:</span>
-                    <span className="font-medium" data-testid="text-materials-cost">
-                      ${Math.round(results.materials).toLocaleString()}
-                    </span>
-                  </div>
-                  <div className="flex justify-between items-center py-2 border-b border-border">
-                    <span className="text-muted-foreground" data-testid="label-labor-cost">Labor Cost:</span>
-                    <span className="font-medium" data-testid="text-labor-cost">
-                      ${Math.round(results.labor).toLocaleString()}
-                    </span>
-                  </div>
-                  <div className="flex justify-between items-center py-2 border-b border-border">
-                    <span className="text-muted-foreground" data-testid="label-addons-cost">Add-ons:</span>
-                    <span className="font-medium" data-testid="text-addons-cost">
-                      ${Math.round(results.addons).toLocaleString()}
-                    </span>
-                  </div>
-                  <div className="flex justify-between items-center py-3 border-t-2 border-primary">
-                    <span className="text-lg font-semibold" data-testid="label-total-range">Total Range:</span>
-                    <span className="text-lg font-bold text-primary" data-testid="text-total-range">
-                      ${Math.round(results.totalLow).toLocaleString()} - ${Math.round(results.totalHigh).toLocaleString()}
-                    </span>
-                  </div>
-                  <div className="flex justify-between items-center py-2">
-                    <span className="text-lg font-semibold" data-testid="label-midpoint-total">Midpoint Total:</span>
-                    <span className="text-xl font-bold text-primary" data-testid="text-midpoint-total">
-                      ${Math.round(results.totalMid).toLocaleString()}
-                    </span>
-                  </div>
-                </div>
+            )}
+          />
+          {disclaimer}
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          {/* Calculator Form */}
+          <Card className="shadow-lg">
+            <CardContent className="p-6">
+              <h2 className="text-2xl font-semibold mb-6 text-card-foreground" data-testid="title-project-details">
+                {t('calculator.projectDetails')}
+              </h2>
 
-                {/* Chart Container */}
-                {chartData.length > 0 && (
+              <Form {...form}>
+                <form onSubmit={calculateCost} noValidate>
+                  {/* Roofing Type Selection */}
                   <div className="mb-6">
-                    <h3 className="text-lg font-medium mb-4 text-card-foreground" data-testid="title-cost-breakdown">
-                      Cost Breakdown
-                    </h3>
-                    <div className="h-64" data-testid="chart-cost-breakdown">
-                      <ResponsiveContainer width="100%" height="100%">
-                        <PieChart>
-                          <Pie
-                            data={chartData}
-                            cx="50%"
-                            cy="50%"
-                            innerRadius={40}
-                            outerRadius={80}
-                            paddingAngle={5}
-                            dataKey="value"
-                          >
-                            {chartData.map((entry, index) => (
-                              <Cell key={`cell-${index}`} fill={entry.color} />
-                            ))}
-                          </Pie>
-                          <Tooltip 
-                            formatter={(value: number) => [`$${Math.round(value).toLocaleString()}`, '']}
+                    <Label className="block text-sm font-medium mb-3" data-testid="label-roofing-type">
+                      {t('calculator.roofingType')}
+                    </Label>
+                    <div className="grid grid-cols-2 gap-3">
+                      <Button
+                        type="button"
+                        variant={formData.roofingType === 'residential' ? 'default' : 'outline'}
+                        className={`toggle-button ${formData.roofingType === 'residential' ? 'active' : ''}`}
+                        onClick={() => handleRoofingTypeChange('residential')}
+                        data-testid="button-residential"
+                      >
+                        {t('roofingType.residential')}
+                      </Button>
+                      <Button
+                        type="button"
+                        variant={formData.roofingType === 'commercial' ? 'default' : 'outline'}
+                        className={`toggle-button ${formData.roofingType === 'commercial' ? 'active' : ''}`}
+                        onClick={() => handleRoofingTypeChange('commercial')}
+                        data-testid="button-commercial"
+                      >
+                        {t('roofingType.commercial')}
+                      </Button>
+                    </div>
+                  </div>
+
+                  {/* Roof Size Input */}
+                  <FormField
+                    control={form.control}
+                    name="roofSize"
+                    render={({ field }) => (
+                      <FormItem className="mb-6">
+                        <FormLabel className="block text-sm font-medium" data-testid="label-roof-size">
+                          {t('calculator.roofSize')}
+                        </FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min="1"
+                            max={MAX_ROOF_SIZE}
+                            name={field.name}
+                            ref={field.ref}
+                            onBlur={field.onBlur}
+                            value={field.value || ''}
+                            onChange={(e) => {
+                              field.onChange(parseFloat(e.target.value) || 0);
+                              // A typed size no longer matches the measured edges
+                              form.setValue('edges', undefined);
+                            }}
+                            placeholder={t('calculator.roofSizePlaceholder')}
+                            className="w-full"
+                            data-testid="input-roof-size"
+                          />
+                        </FormControl>
+                        <FormDescription className="text-xs" data-testid="text-roof-size-hint">
+                          {t('calculator.roofSizeHint', { max: MAX_ROOF_SIZE })}
+                        </FormDescription>
+                        <FormMessage data-testid="error-roof-size" />
+                      </FormItem>
+                    )}
+                  />
+
+                  {/* Project Location */}
+                  <FormField
+                    control={form.control}
+                    name="zipCode"
+                    render={({ field }) => (
+                      <FormItem className="mb-6">
+                        <FormLabel className="block text-sm font-medium" data-testid="label-zip-code">
+                          {t('calculator.zipCode')}
+                        </FormLabel>
+                        <FormControl>
+                          <Input
+                            inputMode="numeric"
+                            maxLength={5}
+                            {...field}
+                            value={field.value ?? ''}
+                            onChange={(e) => field.onChange(e.target.value.replace(/\D/g, ''))}
+                            placeholder={t('calculator.zipCodePlaceholder')}
+                            className="w-full"
+                            data-testid="input-zip-code"
                           />
-                          <Legend />
-                        </PieChart>
-                      </ResponsiveContainer>
+                        </FormControl>
+                        <FormDescription className="text-xs" data-testid="text-zip-code-hint">
+                          {t('calculator.zipCodeHint')}
+                        </FormDescription>
+                        <FormMessage data-testid="error-zip-code" />
+                      </FormItem>
+                    )}
+                  />
+
+                  {/* Material Selection */}
+                  <FormField
+                    control={form.control}
+                    name="material"
+                    render={({ field }) => (
+                      <FormItem className="mb-6">
+                        <FormLabel className="block text-sm font-medium" data-testid="label-material">
+                          {t('calculator.material')}
+                        </FormLabel>
+                        <Select value={field.value} onValueChange={(value: MaterialType) => field.onChange(value)}>
+                          <FormControl>
+                            <SelectTrigger ref={field.ref} onBlur={field.onBlur} data-testid="select-material">
+                              <SelectValue placeholder={isPriceBookLoading ? t('calculator.materialsLoading') : t('calculator.materialPlaceholder')} />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {materialOptions.map((option) => (
+                              <SelectItem key={option.value} value={option.value} data-testid={`option-material-${option.value}`}>
+                                {formatMaterialOption(locale, option)}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage data-testid="error-material" />
+                      </FormItem>
+                    )}
+                  />
+
+                  {/* Job Type */}
+                  <FormField
+                    control={form.control}
+                    name="jobType"
+                    rules={{ deps: ['tearoff'] }}
+                    render={({ field }) => (
+                      <FormItem className="mb-6">
+                        <FormLabel className="block text-sm font-medium" data-testid="label-job-type">
+                          {t('calculator.jobType')}
+                        </FormLabel>
+                        <Select value={field.value} onValueChange={(value: JobType) => field.onChange(value)}>
+                          <FormControl>
+                            <SelectTrigger ref={field.ref} onBlur={field.onBlur} data-testid="select-job-type">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="new" data-testid="option-job-new">{t('jobType.new')}</SelectItem>
+                            <SelectItem value="replacement" data-testid="option-job-replacement">{t('jobType.replacement')}</SelectItem>
+                            <SelectItem value="repair" data-testid="option-job-repair">{t('jobType.repair')}</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  {/* Roof Complexity */}
+                  <FormField
+                    control={form.control}
+                    name="complexity"
+                    render={({ field }) => (
+                      <FormItem className="mb-6">
+                        <FormLabel className="block text-sm font-medium" data-testid="label-complexity">
+                          {t('calculator.complexity')}
+                        </FormLabel>
+                        <Select value={field.value} onValueChange={(value: ComplexityType) => field.onChange(value)}>
+                          <FormControl>
+                            <SelectTrigger ref={field.ref} onBlur={field.onBlur} data-testid="select-complexity">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="simple" data-testid="option-complexity-simple">{t('complexity.simple')}</SelectItem>
+                            <SelectItem value="medium" data-testid="option-complexity-medium">{t('complexity.medium')}</SelectItem>
+                            <SelectItem value="complex" data-testid="option-complexity-complex">{t('complexity.complex')}</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  {/* Add-ons */}
+                  <div className="mb-6">
+                    <Label className="block text-sm font-medium mb-3" data-testid="label-addons">
+                      {t('calculator.addons')}
+                    </Label>
+                    <div className="space-y-3">
+                      <FormField
+                        control={form.control}
+                        name="tearoff"
+                        render={({ field }) => (
+                          <FormItem className="space-y-1">
+                            <div className="flex items-center space-x-3">
+                              <FormControl>
+                                <Checkbox
+                                  ref={field.ref}
+                                  checked={field.value}
+                                  onCheckedChange={(checked) => field.onChange(checked === true)}
+                                  data-testid="checkbox-tearoff"
+                                />
+                              </FormControl>
+                              <FormLabel className="text-sm font-normal cursor-pointer" data-testid="label-tearoff">
+                                {t('calculator.tearoff')}
+                              </FormLabel>
+                            </div>
+                            <FormDescription className="text-xs pl-7" data-testid="text-tearoff-hint">
+                              {t('calculator.tearoffHint')}
+                            </FormDescription>
+                            <FormMessage className="pl-7" data-testid="error-tearoff" />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name="permits"
+                        render={({ field }) => (
+                          <FormItem className="flex items-center space-x-3 space-y-0">
+                            <FormControl>
+                              <Checkbox
+                                ref={field.ref}
+                                checked={field.value}
+                                onCheckedChange={(checked) => field.onChange(checked === true)}
+                                data-testid="checkbox-permits"
+                              />
+                            </FormControl>
+                            <FormLabel className="text-sm font-normal cursor-pointer" data-testid="label-permits">
+                              {t('calculator.permits')}
+                            </FormLabel>
+                          </FormItem>
+                        )}
+                      />
                     </div>
                   </div>
-                )}
 
-                {/* Get Quote Button */}
-                <Button 
-                  asChild 
-                  variant="outline" 
-                  className="w-full" 
-                  size="lg"
-                  data-testid="button-get-quote"
-                >
-                  <a 
-                    href="https://torranceroofingmasters.com/contact/" 
-                    target="_blank" 
-                    rel="noopener noreferrer"
-                    className="flex items-center justify-center"
-                  >
-                    <ExternalLink className="w-4 h-4 mr-2" />
-                    Get a Free Quote
-                  </a>
-                </Button>
-              </CardContent>
-            </Card>
-          )}
-
-          {/* Disclaimer */}
-          <Card className="bg-muted border-border">
-            <CardContent className="p-4">
-              <p className="text-sm text-muted-foreground" data-testid="text-disclaimer">
-                <strong>Disclaimer:</strong> This is an estimate based on 2025 Torrance, CA averages. 
-                Actual costs may vary due to site inspection, current market fluctuations, and specific requirements. 
-                For a firm quote, contact{' '}
-                <a 
-                  href="https://torranceroofingmasters.com/contact/" 
-                  target="_blank" 
-                  rel="noopener noreferrer"
-                  className="text-primary hover:underline"
-                  data-testid="link-contact"
-                >
-                  Torrance Roofing Masters
-                </a>.
-              </p>
+                  {/* Action Buttons */}
+                  <div className="space-y-3">
+                    <Button
+                      type="submit"
+                      className="w-full"
+                      size="lg"
+                      disabled={estimateMutation.isPending}
+                      data-testid="button-calculate"
+                    >
+                      <Calculator className="w-4 h-4 mr-2" />
+                      {t('calculator.getEstimate')}
+                    </Button>
+                    <Button
+                      type="button"
+                      onClick={resetForm}
+                      variant="secondary"
+                      className="w-full"
+                      size="lg"
+                      data-testid="button-reset"
+                    >
+                      {t('calculator.reset')}
+                    </Button>
+                  </div>
+                </form>
+              </Form>
             </CardContent>
           </Card>
 
-          {/* Roof Size Helper */}
-          <Card className="shadow-lg">
-            <CardContent className="p-6">
-              <h3 className="text-lg font-semibold mb-4 text-card-foreground flex items-center" data-testid="title-roof-size-helper">
-                <Home className="w-5 h-5 mr-2" />
-                Need Help Estimating Roof Size?
-              </h3>
-              <div className="space-y-4">
-                <div>
-                  <Label htmlFor="footprint" className="block text-sm font-medium mb-2" data-testid="label-footprint">
-                    Home Footprint (Square Feet)
-                  </Label>
-                  <Input
-                    id="footprint"
-                    type="number"
-                    min="1"
-                    value={roofSizeHelper.footprint || ''}
-                    onChange={(e) => setRoofSizeHelper(prev => ({ 
-                      ...prev, 
-                      footprint: parseFloat(e.target.value) || 0 
-                    }))}
-                    placeholder="Enter home footprint"
-                    data-testid="input-footprint"
+          {/* Results and Helper Tools */}
+          <div className="space-y-6">
+            {/* Results Card */}
+            {showResults && results && (
+              <EstimateResults
+                results={results}
+                measuredEdges={!!formData.edges}
+                insights={pricedFormData && <SimulationRange formData={pricedFormData} />}
+              >
+                {/* Price book check */}
+                {savedEstimate && hasPermission(user, 'estimates:edit') && (
+                  <RecalculatePanel estimateId={savedEstimate.id} />
+                )}
+
+                {/* Discount */}
+                {savedEstimate && hasPermission(user, 'estimates:edit') && (
+                  <DiscountPanel key={savedEstimate.id} estimate={savedEstimate} />
+                )}
+
+                {/* Good / Better / Best */}
+                {savedEstimate && hasPermission(user, 'estimates:edit') && (
+                  <TiersPanel
+                    key={`${savedEstimate.id}-${savedEstimate.formData.roofingType}`}
+                    estimate={savedEstimate}
+                    materialOptions={getMaterialOptions(savedEstimate.formData.roofingType, priceBook?.entries ?? [])}
                   />
-                </div>
-                <div>
-                  <Label htmlFor="overhang" className="block text-sm font-medium mb-2" data-testid="label-overhang">
-                    Overhang (Inches)
-                  </Label>
-                  <Input
-                    id="overhang"
-                    type="number"
-                    min="0"
-                    value={roofSizeHelper.overhang || ''}
-                    onChange={(e) => setRoofSizeHelper(prev => ({ 
-                      ...prev, 
-                      overhang: parseFloat(e.target.value) || 0 
-                    }))}
-                    placeholder="Enter overhang"
-                    data-testid="input-overhang"
+                )}
+
+                {/* Save Estimate */}
+                {hasPermission(user, 'estimates:edit') && pricedFormData && (
+                  <SaveEstimateDialog
+                    estimate={savedEstimate}
+                    formData={pricedFormData}
+                    onSaved={handleEstimateSaved}
                   />
-                </div>
-                <div>
-                  <Label className="block text-sm font-medium mb-2" data-testid="label-pitch">
-                    Roof Pitch
-                  </Label>
-                  <Select 
-                    value={roofSizeHelper.pitch} 
-                    onValueChange={(value: PitchType) => setRoofSizeHelper(prev => ({ 
-                      ...prev, 
-                      pitch: value 
-                    }))}
-                  >
-                    <SelectTrigger data-testid="select-pitch">
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="flat" data-testid="option-pitch-flat">Flat (1.0x multiplier)</SelectItem>
-                      <SelectItem value="low" data-testid="option-pitch-low">Low (1.1x multiplier)</SelectItem>
-                      <SelectItem value="medium" data-testid="option-pitch-medium">Medium (1.3x multiplier)</SelectItem>
-                      <SelectItem value="steep" data-testid="option-pitch-steep">Steep (1.5x multiplier)</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
-                <Button 
-                  onClick={calculateRoofSizeHelper} 
-                  variant="secondary" 
-                  className="w-full"
-                  data-testid="button-calculate-roof-size"
-                >
-                  Calculate Roof Size
-                </Button>
-                {calculatedRoofSize && (
-                  <div className="text-center font-medium text-primary" data-testid="text-calculated-size">
-                    Estimated Roof Size: {calculatedRoofSize.toLocaleString()} sq ft
-                  </div>
                 )}
-              </div>
-            </CardContent>
-          </Card>
+
+                {/* Proposal */}
+                {savedEstimate && hasPermission(user, 'estimates:edit') && (
+                  <Button asChild variant="secondary" className="w-full mb-3" size="lg" data-testid="button-download-proposal">
+                    <a href={`/api/estimates/${savedEstimate.id}/proposal.pdf`} download>
+                      <FileText className="w-4 h-4 mr-2" />
+                      {t('calculator.downloadProposal')}
+                    </a>
+                  </Button>
+                )}
+
+                {/* Share Links */}
+                {savedEstimate && hasPermission(user, 'estimates:edit') && (
+                  <ShareLinksPanel estimateId={savedEstimate.id} />
+                )}
+
+                {/* Quote Request */}
+                {pricedFormData && <LeadFormDialog formData={pricedFormData} />}
+              </EstimateResults>
+            )}
+
+            {/* Revision History */}
+            {savedEstimate && hasPermission(user, 'estimates:edit') && (
+              <RevisionHistory estimateId={savedEstimate.id} />
+            )}
+
+            {/* Material Comparison */}
+            {showResults && pricedFormData && (
+              <MaterialComparison
+                key={pricedFormData.roofingType}
+                formData={pricedFormData}
+                materialOptions={getMaterialOptions(pricedFormData.roofingType, priceBook?.entries ?? [])}
+              />
+            )}
+
+            {disclaimer}
+
+            {/* Roof Size Helper */}
+            <Card className="shadow-lg">
+              <CardContent className="p-6">
+                <h3 className="text-lg font-semibold mb-4 text-card-foreground flex items-center" data-testid="title-roof-size-helper">
+                  <Home className="w-5 h-5 mr-2" />
+                  {t('calculator.sizeHelperTitle')}
+                </h3>
+                {sizeHelper}
+              </CardContent>
+            </Card>
+          </div>
         </div>
-      </div>
+      )}
     </div>
   );
 }
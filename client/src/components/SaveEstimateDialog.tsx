@@ -0,0 +1,218 @@
+import { useEffect, useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { Save } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { LOCALES, localeNames, type Locale } from '@shared/i18n';
+import {
+  insertCustomerSchema,
+  insertEstimateSchema,
+  sameCalculatorInputs,
+  validationMessage,
+  type EstimateWithCustomer,
+  type InsertCustomer,
+  type InsertEstimate,
+  type UpdateEstimate,
+  type ValidCalculatorFormData
+} from '@shared/schema';
+
+const emptyCustomer: InsertCustomer = { name: '', email: '', phone: '', address: '', language: 'en' };
+
+interface SaveEstimateDialogProps {
+  estimate?: EstimateWithCustomer;
+  formData: ValidCalculatorFormData;
+  onSaved: (estimate: EstimateWithCustomer) => void;
+}
+
+export default function SaveEstimateDialog({ estimate, formData, onSaved }: SaveEstimateDialogProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [title, setTitle] = useState('');
+  const [customer, setCustomer] = useState<InsertCustomer>(emptyCustomer);
+  const inputsChanged = !estimate || !sameCalculatorInputs(formData, estimate.formData);
+  // Repricing clears these, since they were agreed at the old price
+  const clearsAgreement = !!estimate && inputsChanged && (!!estimate.acceptedTier || estimate.discountStatus !== 'none');
+
+  useEffect(() => {
+    if (!open) {
+      return;
+    }
+    setTitle(estimate?.title ?? '');
+    setCustomer(estimate?.customer ? {
+      name: estimate.customer.name,
+      email: estimate.customer.email ?? '',
+      phone: estimate.customer.phone ?? '',
+      address: estimate.customer.address ?? '',
+      language: estimate.customer.language
+    } : emptyCustomer);
+  }, [open, estimate]);
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ data, customerChanges }: { data: InsertEstimate; customerChanges?: InsertCustomer }) => {
+      if (!estimate) {
+        const res = await apiRequest('POST', '/api/estimates', data);
+        return (await res.json()) as EstimateWithCustomer;
+      }
+
+      if (estimate.customer && customerChanges) {
+        await apiRequest('PATCH', `/api/customers/${estimate.customer.id}`, customerChanges);
+      }
+      // Inputs are only sent when they changed, since the server reprices them
+      const { formData: _, ...details } = data;
+      const changes: UpdateEstimate = inputsChanged ? data : details;
+      const res = await apiRequest('PATCH', `/api/estimates/${estimate.id}`, changes);
+      return (await res.json()) as EstimateWithCustomer;
+    },
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/estimates'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/customers'] });
+      setOpen(false);
+      toast({ title: "Estimate Saved", description: saved.title });
+      onSaved(saved);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Save Failed", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const save = () => {
+    const hasCustomer = customer.name.trim() !== '';
+    if (hasCustomer) {
+      const parsedCustomer = insertCustomerSchema.safeParse(customer);
+      if (!parsedCustomer.success) {
+        toast({ title: "Invalid Customer", description: parsedCustomer.error.issues[0].message, variant: "destructive" });
+        return;
+      }
+    }
+
+    // An existing customer is edited in place rather than duplicated
+    const keepsCustomer = hasCustomer && !!estimate?.customer;
+    const parsed = insertEstimateSchema.safeParse({
+      title,
+      formData,
+      ...(keepsCustomer ? {} : { customer: hasCustomer ? customer : undefined })
+    });
+    if (!parsed.success) {
+      toast({ title: "Invalid Estimate", description: validationMessage(parsed.error.issues[0].message), variant: "destructive" });
+      return;
+    }
+
+    saveMutation.mutate({ data: parsed.data, customerChanges: keepsCustomer ? customer : undefined });
+  };
+
+  const updateCustomer = (field: keyof InsertCustomer, value: string) => {
+    setCustomer(prev => ({ ...prev, [field]: value }));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="secondary" className="w-full mb-3" size="lg" data-testid="button-save-estimate">
+          <Save className="w-4 h-4 mr-2" />
+          {estimate ? 'Save Changes' : 'Save Estimate'}
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle data-testid="title-save-estimate">{estimate ? 'Update Estimate' : 'Save Estimate'}</DialogTitle>
+          <DialogDescription>
+            {estimate && !inputsChanged
+              ? 'The inputs are unchanged, so the estimate keeps the prices it was quoted at.'
+              : 'Saved estimates are priced with the current price book and can be reopened later.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="estimate-title" className="block text-sm font-medium mb-2">Title</Label>
+            <Input
+              id="estimate-title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="e.g. 123 Main St re-roof"
+              data-testid="input-estimate-title"
+            />
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="customer-name" className="block text-sm font-medium mb-2">Customer Name</Label>
+              <Input
+                id="customer-name"
+                value={customer.name}
+                onChange={(e) => updateCustomer('name', e.target.value)}
+                placeholder="Optional"
+                data-testid="input-customer-name"
+              />
+            </div>
+            <div>
+              <Label htmlFor="customer-email" className="block text-sm font-medium mb-2">Email</Label>
+              <Input
+                id="customer-email"
+                type="email"
+                value={customer.email ?? ''}
+                onChange={(e) => updateCustomer('email', e.target.value)}
+                data-testid="input-customer-email"
+              />
+            </div>
+            <div>
+              <Label htmlFor="customer-phone" className="block text-sm font-medium mb-2">Phone</Label>
+              <Input
+                id="customer-phone"
+                type="tel"
+                value={customer.phone ?? ''}
+                onChange={(e) => updateCustomer('phone', e.target.value)}
+                data-testid="input-customer-phone"
+              />
+            </div>
+            <div>
+              <Label htmlFor="customer-address" className="block text-sm font-medium mb-2">Address</Label>
+              <Input
+                id="customer-address"
+                value={customer.address ?? ''}
+                onChange={(e) => updateCustomer('address', e.target.value)}
+                data-testid="input-customer-address"
+              />
+            </div>
+            <div>
+              <Label className="block text-sm font-medium mb-2">Proposal Language</Label>
+              <Select value={customer.language} onValueChange={(value: Locale) => updateCustomer('language', value)}>
+                <SelectTrigger data-testid="select-customer-language">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LOCALES.map(locale => (
+                    <SelectItem key={locale} value={locale}>{localeNames[locale]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          {clearsAgreement && (
+            <p className="text-sm text-destructive" data-testid="text-reprice-warning">
+              The inputs changed, so saving reprices the estimate and clears its accepted option and discount.
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button onClick={save} disabled={saveMutation.isPending} data-testid="button-confirm-save">
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,149 @@
+import { useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Copy, Link2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { SHARE_LINK_MAX_DAYS, type EstimateShareLink } from '@shared/schema';
+
+const expiryOptions: { value: string; label: string }[] = [
+  { value: '7', label: 'Expires in 7 days' },
+  { value: '30', label: 'Expires in 30 days' },
+  { value: String(SHARE_LINK_MAX_DAYS), label: `Expires in ${SHARE_LINK_MAX_DAYS} days` },
+  { value: 'never', label: 'Never expires' }
+];
+
+const shareUrl = (link: EstimateShareLink) => `${window.location.origin}/estimate/${link.token}`;
+
+function linkStatus(link: EstimateShareLink): 'active' | 'expired' | 'revoked' {
+  if (link.revokedAt) {
+    return 'revoked';
+  }
+  return link.expiresAt && new Date(link.expiresAt).getTime() <= Date.now() ? 'expired' : 'active';
+}
+
+interface ShareLinksPanelProps {
+  estimateId: string;
+}
+
+export default function ShareLinksPanel({ estimateId }: ShareLinksPanelProps) {
+  const { toast } = useToast();
+  const [expiry, setExpiry] = useState('30');
+  const queryKey = ['/api/estimates', estimateId, 'share-links'];
+
+  const { data: links = [] } = useQuery<EstimateShareLink[]>({ queryKey });
+
+  const copyLink = async (link: EstimateShareLink) => {
+    try {
+      await navigator.clipboard.writeText(shareUrl(link));
+      toast({ title: "Link Copied", description: "Send it to the homeowner to view this estimate." });
+    } catch {
+      toast({ title: "Copy Failed", description: shareUrl(link), variant: "destructive" });
+    }
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const expiresInDays = expiry === 'never' ? null : parseInt(expiry, 10);
+      const res = await apiRequest('POST', `/api/estimates/${estimateId}/share-links`, { expiresInDays });
+      return (await res.json()) as EstimateShareLink;
+    },
+    onSuccess: (link) => {
+      queryClient.invalidateQueries({ queryKey });
+      copyLink(link);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Sharing Failed", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest('DELETE', `/api/share-links/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Revoke Failed", description: error.message, variant: "destructive" });
+    }
+  });
+
+  return (
+    <div className="mb-6 rounded-md border border-border p-4" data-testid="panel-share-links">
+      <h3 className="text-lg font-medium mb-3 text-card-foreground">Share with Homeowner</h3>
+
+      <div className="flex items-center gap-3 mb-3">
+        <Select value={expiry} onValueChange={setExpiry}>
+          <SelectTrigger className="flex-1" data-testid="select-share-expiry">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {expiryOptions.map(({ value, label }) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="secondary"
+          onClick={() => createMutation.mutate()}
+          disabled={createMutation.isPending}
+          data-testid="button-create-share-link"
+        >
+          <Link2 className="w-4 h-4 mr-2" />
+          Create Link
+        </Button>
+      </div>
+
+      {links.length > 0 && (
+        <div className="space-y-2 text-sm">
+          {links.map((link) => {
+            const status = linkStatus(link);
+            return (
+              <div
+                key={link.id}
+                className="flex items-center justify-between gap-2 py-1 border-b border-border last:border-b-0"
+                data-testid={`share-link-${link.id}`}
+              >
+                <div className="min-w-0">
+                  <Badge variant={status === 'active' ? 'default' : 'outline'} className="mr-2 capitalize">
+                    {status}
+                  </Badge>
+                  <span className="text-muted-foreground">
+                    Created {format(new Date(link.createdAt), 'PP')}
+                    {link.expiresAt && ` · ${status === 'expired' ? 'expired' : 'expires'} ${format(new Date(link.expiresAt), 'PP')}`}
+                  </span>
+                </div>
+                {status === 'active' && (
+                  <div className="flex shrink-0">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => copyLink(link)}
+                      aria-label="Copy link"
+                      data-testid={`button-copy-share-link-${link.id}`}
+                    >
+                      <Copy className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => revokeMutation.mutate(link.id)}
+                      disabled={revokeMutation.isPending}
+                      data-testid={`button-revoke-share-link-${link.id}`}
+                    >
+                      Revoke
+                    </Button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Bar, BarChart, CartesianGrid, XAxis } from 'recharts';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { apiRequest } from '@/lib/queryClient';
+import { useLocale } from '@/hooks/use-locale';
+import { CostSimulation } from '@shared/roofing';
+import { type ValidCalculatorFormData } from '@shared/schema';
+
+interface SimulationRangeProps {
+  formData: ValidCalculatorFormData;
+}
+
+export default function SimulationRange({ formData }: SimulationRangeProps) {
+  const [enabled, setEnabled] = useState(false);
+  const { t, formatCurrency, errorMessage } = useLocale();
+
+  const chartConfig = {
+    count: {
+      label: t('simulation.jobs'),
+      color: 'var(--chart-1)'
+    }
+  } satisfies ChartConfig;
+
+  const { data: simulation, isFetching, error } = useQuery<CostSimulation, Error>({
+    queryKey: ['/api/estimates/simulate', formData],
+    queryFn: async () => {
+      const res = await apiRequest('POST', '/api/estimates/simulate', formData);
+      return await res.json();
+    },
+    enabled
+  });
+
+  const chartData = simulation?.histogram.map(bin => ({
+    range: formatCurrency((bin.start + bin.end) / 2, { notation: 'compact' }),
+    count: bin.count
+  })) ?? [];
+
+  return (
+    <div className="mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <Label htmlFor="simulation-mode" className="text-lg font-medium text-card-foreground" data-testid="label-simulation">
+          {t('simulation.title')}
+        </Label>
+        <Switch
+          id="simulation-mode"
+          checked={enabled}
+          onCheckedChange={setEnabled}
+          data-testid="switch-simulation"
+        />
+      </div>
+
+      {enabled && isFetching && (
+        <p className="text-sm text-muted-foreground" data-testid="text-simulation-loading">{t('simulation.loading')}</p>
+      )}
+      {enabled && error && (
+        <p className="text-sm text-destructive" data-testid="text-simulation-error">{errorMessage(error)}</p>
+      )}
+
+      {enabled && simulation && !isFetching && (
+        <>
+          <div className="grid grid-cols-3 gap-3 text-center mb-4">
+            <div data-testid="text-simulation-p10">
+              <div className="text-xs text-muted-foreground">{t('simulation.low')}</div>
+              <div className="font-medium">{formatCurrency(simulation.p10)}</div>
+            </div>
+            <div data-testid="text-simulation-p50">
+              <div className="text-xs text-muted-foreground">{t('simulation.likely')}</div>
+              <div className="font-bold text-primary">{formatCurrency(simulation.p50)}</div>
+            </div>
+            <div data-testid="text-simulation-p90">
+              <div className="text-xs text-muted-foreground">{t('simulation.high')}</div>
+              <div className="font-medium">{formatCurrency(simulation.p90)}</div>
+            </div>
+          </div>
+          <ChartContainer config={chartConfig} className="h-48 w-full" data-testid="chart-simulation">
+            <BarChart data={chartData}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="range" tickLine={false} axisLine={false} interval="preserveStartEnd" />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Bar dataKey="count" fill="var(--color-count)" radius={2} />
+            </BarChart>
+          </ChartContainer>
+          <p className="text-xs text-muted-foreground mt-2" data-testid="text-simulation-hint">
+            {t('simulation.hint', { iterations: simulation.iterations })}
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
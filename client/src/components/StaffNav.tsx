@@ -0,0 +1,60 @@
+import { Link, useLocation } from 'wouter';
+import { LogOut } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/hooks/use-auth';
+import { hasPermission, roleLabels, type Permission } from '@shared/permissions';
+
+const STAFF_LINKS: { href: string; label: string; permission?: Permission }[] = [
+  { href: '/', label: 'Calculator' },
+  { href: '/estimates', label: 'Estimates', permission: 'estimates:edit' },
+  { href: '/leads', label: 'Leads', permission: 'estimates:edit' },
+  { href: '/reports', label: 'Reports', permission: 'reports:view' },
+  { href: '/admin/price-book', label: 'Price Book', permission: 'pricebook:edit' },
+  { href: '/admin/users', label: 'Users', permission: 'users:manage' }
+];
+
+export default function StaffNav() {
+  const { user, logoutMutation } = useAuth();
+  const [location] = useLocation();
+
+  if (!user) {
+    return null;
+  }
+
+  const links = STAFF_LINKS.filter(({ permission }) => !permission || hasPermission(user, permission));
+
+  return (
+    <nav className="border-b border-border bg-card" data-testid="nav-staff">
+      <div className="container mx-auto px-4 max-w-5xl flex items-center justify-between h-14">
+        <div className="flex items-center gap-1">
+          {links.map(({ href, label }) => (
+            <Button
+              key={href}
+              asChild
+              variant={location === href ? 'secondary' : 'ghost'}
+              size="sm"
+              data-testid={`link-nav-${label.toLowerCase().replace(' ', '-')}`}
+            >
+              <Link href={href}>{label}</Link>
+            </Button>
+          ))}
+        </div>
+        <div className="flex items-center gap-3 text-sm text-muted-foreground">
+          <span data-testid="text-signed-in-user">
+            {user.username} · {roleLabels[user.role]}
+          </span>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => logoutMutation.mutate()}
+            disabled={logoutMutation.isPending}
+            data-testid="button-logout"
+          >
+            <LogOut className="w-4 h-4 mr-2" />
+            Sign Out
+          </Button>
+        </div>
+      </div>
+    </nav>
+  );
+}
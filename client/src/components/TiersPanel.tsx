@@ -0,0 +1,193 @@
+import { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import {
+  hasUnderlayment,
+  productLineOptions,
+  underlaymentOptions,
+  warrantyOptions
+} from '@shared/roofing-calculations';
+import { MaterialOption, SystemOption } from '@shared/roofing';
+import { formatCurrency } from '@shared/i18n';
+import {
+  tierChoice,
+  tierLabels,
+  tierLevelSchema,
+  type EstimateTierChoice,
+  type EstimateWithCustomer,
+  type TierLevel
+} from '@shared/schema';
+
+type TierField = Exclude<keyof EstimateTierChoice, 'level'>;
+
+type TierAction =
+  | { type: 'save'; tiers: EstimateTierChoice[] }
+  | { type: 'accept'; tier: TierLevel };
+
+// A sensible ladder to start from: the estimated material, then upgraded systems
+function defaultChoices({ formData }: EstimateWithCustomer): EstimateTierChoice[] {
+  const { material } = formData;
+  return [
+    { level: 'good', material, productLine: 'standard', underlayment: 'standard', warranty: 'standard' },
+    { level: 'better', material, productLine: 'premium', underlayment: 'premium', warranty: 'enhanced' },
+    { level: 'best', material, productLine: 'designer', underlayment: 'ice_and_water', warranty: 'lifetime' }
+  ];
+}
+
+const optionFields: { field: Exclude<TierField, 'material'>; label: string; options: Record<string, SystemOption> }[] = [
+  { field: 'productLine', label: 'Product line', options: productLineOptions },
+  { field: 'underlayment', label: 'Underlayment', options: underlaymentOptions },
+  { field: 'warranty', label: 'Warranty', options: warrantyOptions }
+];
+
+interface TiersPanelProps {
+  estimate: EstimateWithCustomer;
+  materialOptions: MaterialOption[];
+}
+
+export default function TiersPanel({ estimate, materialOptions }: TiersPanelProps) {
+  const { toast } = useToast();
+  const [choices, setChoices] = useState<EstimateTierChoice[]>(() =>
+    estimate.tiers.length > 0 ? estimate.tiers.map(tierChoice) : defaultChoices(estimate)
+  );
+
+  const tierMutation = useMutation({
+    mutationFn: async (action: TierAction) => {
+      const res = action.type === 'save'
+        ? await apiRequest('PUT', `/api/estimates/${estimate.id}/tiers`, { tiers: action.tiers })
+        : await apiRequest('POST', `/api/estimates/${estimate.id}/accept`, { tier: action.tier });
+      return (await res.json()) as EstimateWithCustomer;
+    },
+    onSuccess: (updated, action) => {
+      if (action.type === 'accept') {
+        // The accepted tier becomes the estimate's inputs, so reload the calculator
+        queryClient.setQueryData(['/api/estimates', estimate.id], updated);
+        queryClient.invalidateQueries({ queryKey: ['/api/estimates', estimate.id, 'revisions'] });
+      } else {
+        const { tiers, acceptedTier, acceptedAt } = updated;
+        queryClient.setQueryData<EstimateWithCustomer>(['/api/estimates', estimate.id], prev =>
+          prev && { ...prev, tiers, acceptedTier, acceptedAt }
+        );
+      }
+      queryClient.invalidateQueries({ queryKey: ['/api/estimates'], exact: true });
+      queryClient.invalidateQueries({ queryKey: ['/api/reports/estimates'] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Options Not Saved", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const updateChoice = (level: TierLevel, field: TierField, value: string) => {
+    setChoices(prev => prev.map(choice => (choice.level === level ? { ...choice, [field]: value } : choice)));
+  };
+
+  const pricedTier = (level: TierLevel) => estimate.tiers.find(tier => tier.level === level);
+
+  return (
+    <div className="mb-6 rounded-md border border-border p-4" data-testid="panel-tiers">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-medium text-card-foreground">Good / Better / Best</h3>
+        {estimate.acceptedTier && (
+          <Badge data-testid="badge-accepted-tier">{tierLabels[estimate.acceptedTier]} accepted</Badge>
+        )}
+      </div>
+
+      <div className="space-y-4 mb-4">
+        {tierLevelSchema.options.map(level => {
+          const choice = choices.find(option => option.level === level)!;
+          const priced = pricedTier(level);
+          return (
+            <div key={level} className="border-b border-border pb-4 last:border-b-0" data-testid={`tier-${level}`}>
+              <div className="flex items-center justify-between mb-2">
+                <span className="font-semibold">{tierLabels[level]}</span>
+                {priced && (
+                  <span className="text-sm" data-testid={`text-tier-total-${level}`}>
+                    <span className="font-bold text-primary">{formatCurrency(priced.breakdown.totalMid)}</span>
+                    {estimate.acceptedTier !== level && (
+                      <Button
+                        variant="link"
+                        size="sm"
+                        className="h-auto py-0"
+                        onClick={() => tierMutation.mutate({ type: 'accept', tier: level })}
+                        disabled={tierMutation.isPending}
+                        data-testid={`button-accept-tier-${level}`}
+                      >
+                        Mark accepted
+                      </Button>
+                    )}
+                  </span>
+                )}
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <Label className="block text-xs text-muted-foreground mb-1">Material</Label>
+                  <Select value={choice.material} onValueChange={(value) => updateChoice(level, 'material', value)}>
+                    <SelectTrigger data-testid={`select-tier-material-${level}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {materialOptions.map(option => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {optionFields.map(({ field, label, options }) => (
+                  <div key={field}>
+                    <Label className="block text-xs text-muted-foreground mb-1">{label}</Label>
+                    <Select
+                      value={choice[field]}
+                      onValueChange={(value) => updateChoice(level, field, value)}
+                      disabled={field === 'underlayment' && !hasUnderlayment(choice.material)}
+                    >
+                      <SelectTrigger data-testid={`select-tier-${field}-${level}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(options).map(([value, option]) => (
+                          <SelectItem key={value} value={value}>{option.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex gap-3">
+        <Button
+          variant="secondary"
+          className="flex-1"
+          onClick={() => tierMutation.mutate({ type: 'save', tiers: choices })}
+          disabled={tierMutation.isPending}
+          data-testid="button-save-tiers"
+        >
+          {estimate.tiers.length > 0 ? 'Update Options' : 'Price Options'}
+        </Button>
+        {estimate.tiers.length > 0 && (
+          <Button
+            variant="ghost"
+            onClick={() => tierMutation.mutate({ type: 'save', tiers: [] })}
+            disabled={tierMutation.isPending}
+            data-testid="button-remove-tiers"
+          >
+            Remove
+          </Button>
+        )}
+      </div>
+      {estimate.tiers.length > 0 && (
+        <p className="text-xs text-muted-foreground mt-2">
+          Customers can pick an option from a share link. Changing the options clears any acceptance.
+        </p>
+      )}
+    </div>
+  );
+}
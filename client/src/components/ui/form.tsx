@@ -14,6 +14,7 @@ import {
 
 import { cn } from "@/lib/utils"
 import { Label } from "@/components/ui/label"
+import { useLocale } from "@/hooks/use-locale"
 
 const Form = FormProvider
 
@@ -147,7 +148,9 @@ const FormMessage = React.forwardRef<
   React.HTMLAttributes<HTMLParagraphElement>
 >(({ className, children, ...props }, ref) => {
   const { error, formMessageId } = useFormField()
-  const body = error ? String(error?.message ?? "") : children
+  const { validationMessage } = useLocale()
+  // Schema messages are message keys, translated on the way out
+  const body = error ? validationMessage(String(error?.message ?? "")) : children
 
   if (!body) {
     return null
@@ -0,0 +1,61 @@
+import { isEmbedMessage } from "@/lib/embed-events";
+
+// Script-tag loader for the marketing site, built on its own by
+// vite.embed.config.ts as /embed.js:
+//
+//   <div data-roofing-calculator></div>
+//   <script src="https://<calculator host>/embed.js" async></script>
+//
+// Each placeholder gets an iframe of the /embed page, so the calculator's
+// Tailwind styles never reach the host page. The iframe is resized to fit its
+// content, and every other event it posts is left for the host page to handle.
+
+const CONTAINER_SELECTOR = "[data-roofing-calculator]";
+const INITIAL_HEIGHT = 900;
+
+// currentScript is only set while this script first runs
+const appOrigin = new URL((document.currentScript as HTMLScriptElement | null)?.src ?? import.meta.url).origin;
+
+const frames = new Set<HTMLIFrameElement>();
+
+function mount(container: HTMLElement) {
+  if (container.querySelector("iframe")) {
+    return;
+  }
+
+  const src = new URL("/embed", appOrigin);
+  src.searchParams.set("parentOrigin", window.location.origin);
+
+  const iframe = document.createElement("iframe");
+  iframe.src = src.href;
+  iframe.title = container.dataset.title ?? "Roofing cost calculator";
+  iframe.loading = "lazy";
+  iframe.style.width = "100%";
+  iframe.style.height = `${INITIAL_HEIGHT}px`;
+  iframe.style.border = "0";
+  iframe.style.display = "block";
+  container.appendChild(iframe);
+  frames.add(iframe);
+}
+
+window.addEventListener("message", (event) => {
+  if (event.origin !== appOrigin || !isEmbedMessage(event.data) || event.data.type !== "resize") {
+    return;
+  }
+  const height = event.data.height;
+  frames.forEach((iframe) => {
+    if (iframe.contentWindow === event.source) {
+      iframe.style.height = `${Math.ceil(height)}px`;
+    }
+  });
+});
+
+function mountAll() {
+  document.querySelectorAll<HTMLElement>(CONTAINER_SELECTOR).forEach(mount);
+}
+
+if (document.readyState === "loading") {
+  document.addEventListener("DOMContentLoaded", mountAll);
+} else {
+  mountAll();
+}
@@ -0,0 +1,91 @@
+import { createContext, type ReactNode, useContext } from "react";
+import { useMutation, useQuery, type UseMutationResult } from "@tanstack/react-query";
+import { getQueryFn, apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { type InsertUser, type Login, type SafeUser } from "@shared/schema";
+
+type AuthContextType = {
+  user: SafeUser | null;
+  isLoading: boolean;
+  error: Error | null;
+  loginMutation: UseMutationResult<SafeUser, Error, Login>;
+  logoutMutation: UseMutationResult<void, Error, void>;
+  registerMutation: UseMutationResult<SafeUser, Error, InsertUser>;
+};
+
+export const AuthContext = createContext<AuthContextType | null>(null);
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+  const {
+    data: user,
+    error,
+    isLoading,
+  } = useQuery<SafeUser | null, Error>({
+    queryKey: ["/api/me"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: Login) => {
+      const res = await apiRequest("POST", "/api/login", credentials);
+      return (await res.json()) as SafeUser;
+    },
+    onSuccess: (user) => {
+      queryClient.setQueryData(["/api/me"], user);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Sign In Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: async (newUser: InsertUser) => {
+      const res = await apiRequest("POST", "/api/register", newUser);
+      return (await res.json()) as SafeUser;
+    },
+    onSuccess: (user) => {
+      queryClient.setQueryData(["/api/me"], user);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Registration Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/logout");
+    },
+    onSuccess: () => {
+      queryClient.setQueryData(["/api/me"], null);
+      // Staff data cached under the old session must not outlive it
+      queryClient.removeQueries({ predicate: (query) => query.queryKey[0] !== "/api/me" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Sign Out Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <AuthContext.Provider
+      value={{
+        user: user ?? null,
+        isLoading,
+        error,
+        loginMutation,
+        logoutMutation,
+        registerMutation,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
@@ -0,0 +1,94 @@
+import { createContext, type ReactNode, useContext, useEffect, useState } from "react";
+import {
+  DEFAULT_LOCALE,
+  formatCurrency,
+  formatDate,
+  formatNumber,
+  isLocale,
+  matchLocale,
+  translate,
+  translateTerm,
+  type Locale,
+  type MessageKey,
+} from "@shared/i18n";
+import { validationMessage } from "@shared/schema";
+import { ApiError } from "@/lib/queryClient";
+
+const STORAGE_KEY = "locale";
+
+type LocaleContextType = {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: (key: MessageKey, params?: Record<string, string | number>) => string;
+  term: (text: string) => string;
+  validationMessage: (message: string) => string;
+  errorMessage: (error: Error) => string;
+  formatCurrency: (value: number, options?: Intl.NumberFormatOptions) => string;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+  formatDate: (date: Date | string, dateStyle?: Intl.DateTimeFormatOptions["dateStyle"]) => string;
+};
+
+export const LocaleContext = createContext<LocaleContextType | null>(null);
+
+// A language picked in the switcher wins, then the browser's, then English
+function initialLocale(): Locale {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (isLocale(stored)) {
+    return stored;
+  }
+  for (const tag of navigator.languages ?? [navigator.language]) {
+    const match = matchLocale(tag);
+    if (match) {
+      return match;
+    }
+  }
+  return DEFAULT_LOCALE;
+}
+
+// Server errors are translated by their code. Without one only English can
+// show the message itself.
+function describeError(locale: Locale, error: Error): string {
+  if (error instanceof ApiError && error.code) {
+    return translate(locale, error.code, error.params);
+  }
+  return locale === DEFAULT_LOCALE ? error.message : translate(locale, "error.generic");
+}
+
+export function LocaleProvider({ children }: { children: ReactNode }) {
+  const [locale, setLocaleState] = useState<Locale>(initialLocale);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const setLocale = (next: Locale) => {
+    localStorage.setItem(STORAGE_KEY, next);
+    setLocaleState(next);
+  };
+
+  return (
+    <LocaleContext.Provider
+      value={{
+        locale,
+        setLocale,
+        t: (key, params) => translate(locale, key, params),
+        term: (text) => translateTerm(locale, text),
+        validationMessage: (message) => validationMessage(message, locale),
+        errorMessage: (error) => describeError(locale, error),
+        formatCurrency: (value, options) => formatCurrency(value, locale, options),
+        formatNumber: (value, options) => formatNumber(value, locale, options),
+        formatDate: (date, dateStyle) => formatDate(date, locale, dateStyle),
+      }}
+    >
+      {children}
+    </LocaleContext.Provider>
+  );
+}
+
+export function useLocale() {
+  const context = useContext(LocaleContext);
+  if (!context) {
+    throw new Error("useLocale must be used within a LocaleProvider");
+  }
+  return context;
+}
@@ -0,0 +1,163 @@
+import { z } from "zod";
+import type { CalculatorFormData, FacetType, RoofFacet, RoofSizeHelperData } from "@shared/roofing";
+import { MAX_PITCH_RISE, materialLabels } from "@shared/roofing-calculations";
+import {
+  complexityTypeSchema,
+  jobTypeSchema,
+  materialTypeSchema,
+  MAX_ROOF_SIZE,
+  productLineSchema,
+  roofingTypeSchema,
+  underlaymentTypeSchema,
+  warrantyTypeSchema,
+} from "@shared/schema";
+
+// What the calculator starts with. Values matching these are left out of the URL.
+export const DEFAULT_FORM_DATA: CalculatorFormData = {
+  roofingType: "residential",
+  roofSize: 0,
+  material: "",
+  jobType: "new",
+  complexity: "simple",
+  tearoff: false,
+  permits: false,
+  zipCode: "",
+};
+
+// Links can come from anywhere, so a lot of sections is treated as junk
+const MAX_FACETS = 20;
+
+const facetTypeSchema = z.enum(["gable", "hip", "shed", "flat"]) satisfies z.ZodType<FacetType>;
+const lengthSchema = z.coerce.number().finite().nonnegative();
+const roofSizeSchema = z.coerce.number().positive().max(MAX_ROOF_SIZE);
+const zipCodeSchema = z.string().regex(/^\d{5}$/);
+const flagSchema = z.enum(["0", "1"]).transform((value) => value === "1");
+const pitchSchema = lengthSchema.pipe(z.number().max(MAX_PITCH_RISE));
+const countSchema = z.coerce.number().int().nonnegative();
+
+// e.g. "hip:40:30:6" for type, length, width and pitch rise
+const facetParamSchema = z
+  .string()
+  .transform((value) => value.split(":"))
+  .pipe(z.tuple([facetTypeSchema, lengthSchema, lengthSchema, pitchSchema]))
+  .transform(([type, length, width, pitchRise]): RoofFacet => ({ type, length, width, pitchRise }));
+
+// e.g. "120:80:40:0" for eave, rake, ridge and hip lengths
+const edgesParamSchema = z
+  .string()
+  .transform((value) => value.split(":"))
+  .pipe(z.tuple([lengthSchema, lengthSchema, lengthSchema, lengthSchema]))
+  .transform(([eaveLength, rakeLength, ridgeLength, hipLength]) => ({
+    eaveLength,
+    rakeLength,
+    ridgeLength,
+    hipLength,
+  }));
+
+export interface CalculatorUrlState {
+  formData: Partial<CalculatorFormData>;
+  roofSizeHelper: Partial<RoofSizeHelperData>;
+}
+
+const isEmptyFacet = (facet: RoofFacet) => facet.length <= 0 && facet.width <= 0;
+
+export function encodeCalculatorState(
+  formData: CalculatorFormData,
+  roofSizeHelper: RoofSizeHelperData,
+): string {
+  const params = new URLSearchParams();
+  const set = (key: string, value: string | number | undefined, skip: unknown) => {
+    if (value !== undefined && value !== skip) {
+      params.set(key, String(value));
+    }
+  };
+
+  set("type", formData.roofingType, DEFAULT_FORM_DATA.roofingType);
+  set("size", formData.roofSize, 0);
+  set("material", formData.material, "");
+  set("job", formData.jobType, DEFAULT_FORM_DATA.jobType);
+  set("complexity", formData.complexity, DEFAULT_FORM_DATA.complexity);
+  set("tearoff", formData.tearoff ? "1" : undefined, undefined);
+  set("permits", formData.permits ? "1" : undefined, undefined);
+  set("zip", formData.zipCode, "");
+  set("line", formData.productLine, "standard");
+  set("underlayment", formData.underlayment, "standard");
+  set("warranty", formData.warranty, "standard");
+  if (formData.edges) {
+    const { eaveLength, rakeLength, ridgeLength, hipLength } = formData.edges;
+    params.set("edges", [eaveLength, rakeLength, ridgeLength, hipLength].join(":"));
+  }
+
+  for (const facet of roofSizeHelper.facets) {
+    if (!isEmptyFacet(facet)) {
+      params.append("facet", [facet.type, facet.length, facet.width, facet.pitchRise].join(":"));
+    }
+  }
+  set("overhang", roofSizeHelper.overhang, 0);
+  set("valleys", roofSizeHelper.valleys, 0);
+
+  return params.toString();
+}
+
+// Reads what it can from a query string. Anything missing, unknown or out of
+// range is left out so the calculator's defaults apply instead.
+export function decodeCalculatorState(search: string): CalculatorUrlState {
+  const params = new URLSearchParams(search);
+  const read = <T>(key: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>): T | undefined => {
+    const value = params.get(key);
+    if (value === null) {
+      return undefined;
+    }
+    const parsed = schema.safeParse(value);
+    return parsed.success ? parsed.data : undefined;
+  };
+
+  const formData: Partial<CalculatorFormData> = {
+    roofingType: read("type", roofingTypeSchema),
+    roofSize: read("size", roofSizeSchema),
+    jobType: read("job", jobTypeSchema),
+    complexity: read("complexity", complexityTypeSchema),
+    tearoff: read("tearoff", flagSchema),
+    permits: read("permits", flagSchema),
+    zipCode: read("zip", zipCodeSchema),
+    productLine: read("line", productLineSchema),
+    underlayment: read("underlayment", underlaymentTypeSchema),
+    warranty: read("warranty", warrantyTypeSchema),
+    edges: read("edges", edgesParamSchema),
+  };
+
+  // A material only counts if it exists for the roofing type it will be shown with
+  const material = read("material", materialTypeSchema);
+  const roofingType = formData.roofingType ?? DEFAULT_FORM_DATA.roofingType;
+  if (material && materialLabels[roofingType][material]) {
+    formData.material = material;
+  }
+  // Measured edges only describe the size they were measured with
+  if (!formData.roofSize) {
+    formData.edges = undefined;
+  }
+
+  const facets = params
+    .getAll("facet")
+    .slice(0, MAX_FACETS)
+    .map((value) => facetParamSchema.safeParse(value))
+    .flatMap((parsed) => (parsed.success && !isEmptyFacet(parsed.data) ? [parsed.data] : []));
+
+  const roofSizeHelper: Partial<RoofSizeHelperData> = {
+    facets: facets.length > 0 ? facets : undefined,
+    overhang: read("overhang", lengthSchema),
+    valleys: read("valleys", countSchema),
+  };
+
+  return {
+    formData: withoutUndefined(formData),
+    roofSizeHelper: withoutUndefined(roofSizeHelper),
+  };
+}
+
+// So spreading the result over the defaults doesn't blank them out
+function withoutUndefined<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, entry]) => entry !== undefined),
+  ) as Partial<T>;
+}
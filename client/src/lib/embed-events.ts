@@ -0,0 +1,43 @@
+import type { ValidCalculatorFormData } from "@shared/schema";
+
+// Messages the embedded calculator posts to the page framing it. Host pages
+// listen with window.addEventListener("message", ...) and check `source`.
+export const EMBED_MESSAGE_SOURCE = "roofing-calculator";
+
+export type EmbedEvent =
+  | { type: "ready" }
+  | { type: "resize"; height: number }
+  | {
+      type: "estimate:calculated";
+      formData: ValidCalculatorFormData;
+      totalLow: number;
+      totalMid: number;
+      totalHigh: number;
+      region: string;
+    }
+  | { type: "lead:submitted"; leadId: string; formData: ValidCalculatorFormData };
+
+export type EmbedMessage = EmbedEvent & { source: typeof EMBED_MESSAGE_SOURCE };
+
+export function isEmbedMessage(data: unknown): data is EmbedMessage {
+  return (
+    typeof data === "object" &&
+    data !== null &&
+    (data as { source?: unknown }).source === EMBED_MESSAGE_SOURCE
+  );
+}
+
+// The loader passes the host page's origin so messages only go to that page.
+// Without it (a hand-written iframe) they go to whichever page frames us.
+function parentOrigin(): string {
+  return new URLSearchParams(window.location.search).get("parentOrigin") ?? "*";
+}
+
+// Does nothing outside an iframe, so components can report events unconditionally
+export function postEmbedEvent(event: EmbedEvent) {
+  if (window.parent === window) {
+    return;
+  }
+  const message: EmbedMessage = { ...event, source: EMBED_MESSAGE_SOURCE };
+  window.parent.postMessage(message, parentOrigin());
+}
@@ -0,0 +1,15 @@
+import type { ContactTime, LeadStatus } from "@shared/schema";
+
+export const contactTimeLabels: Record<ContactTime, string> = {
+  anytime: "Any time",
+  morning: "Morning (8am - 12pm)",
+  afternoon: "Afternoon (12pm - 5pm)",
+  evening: "Evening (5pm - 8pm)",
+};
+
+export const leadStatusLabels: Record<LeadStatus, string> = {
+  new: "New",
+  contacted: "Contacted",
+  won: "Won",
+  lost: "Lost",
+};
@@ -0,0 +1,52 @@
+import type { ComponentType } from "react";
+import { Redirect, Route } from "wouter";
+import { Loader2, ShieldAlert } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { useAuth } from "@/hooks/use-auth";
+import { hasPermission, type Permission } from "@shared/permissions";
+
+function AccessDenied() {
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-background">
+      <Card className="w-full max-w-md mx-4">
+        <CardContent className="pt-6">
+          <div className="flex mb-4 gap-2 items-center">
+            <ShieldAlert className="h-8 w-8 text-destructive" />
+            <h1 className="text-2xl font-bold" data-testid="title-access-denied">No Access</h1>
+          </div>
+          <p className="mt-4 text-sm text-muted-foreground">
+            Your role doesn't include this page. Ask an admin if you need access.
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export function ProtectedRoute({
+  path,
+  component: Component,
+  permission,
+}: {
+  path: string;
+  component: ComponentType;
+  permission?: Permission;
+}) {
+  const { user, isLoading } = useAuth();
+
+  return (
+    <Route path={path}>
+      {isLoading ? (
+        <div className="flex items-center justify-center min-h-screen">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : !user ? (
+        <Redirect to={`/auth?next=${encodeURIComponent(window.location.pathname)}`} />
+      ) : permission && !hasPermission(user, permission) ? (
+        <AccessDenied />
+      ) : (
+        <Component />
+      )}
+    </Route>
+  );
+}
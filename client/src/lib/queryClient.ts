@@ -1,9 +1,35 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import { isMessageKey, type MessageKey } from "@shared/i18n";
+import type { ApiErrorBody } from "@shared/schema";
+
+// A failed request, with the server's message and, for errors customers see,
+// the message key to translate it by
+export class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    readonly code?: MessageKey,
+    readonly params?: Record<string, string | number>,
+  ) {
+    super(message);
+  }
+}
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
-    throw new Error(`${res.status}: ${text}`);
+    let body: Partial<ApiErrorBody> | null = null;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      // Not from our API, such as a proxy's error page
+    }
+    throw new ApiError(
+      res.status,
+      typeof body?.message === "string" ? body.message : text,
+      isMessageKey(body?.code) ? body.code : undefined,
+      body?.params,
+    );
   }
 }
 
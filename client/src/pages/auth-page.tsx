@@ -0,0 +1,119 @@
+import { useState, type FormEvent } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Redirect, useSearch } from "wouter";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { insertUserSchema, loginSchema, type AuthSetup } from "@shared/schema";
+
+// Only same-site paths, so the login page can't be used as an open redirect
+function redirectTarget(search: string) {
+  const next = new URLSearchParams(search).get("next");
+  return next && next.startsWith("/") && !next.startsWith("//") ? next : "/estimates";
+}
+
+export default function AuthPage() {
+  const { user, loginMutation, registerMutation } = useAuth();
+  const { toast } = useToast();
+  const search = useSearch();
+  const [credentials, setCredentials] = useState({ username: "", password: "" });
+  const { data: setup } = useQuery<AuthSetup>({ queryKey: ["/api/setup"] });
+
+  if (user) {
+    return <Redirect to={redirectTarget(search)} />;
+  }
+
+  const submit = (mode: "login" | "register") => (e: FormEvent) => {
+    e.preventDefault();
+    const schema = mode === "login" ? loginSchema : insertUserSchema;
+    const parsed = schema.safeParse(credentials);
+    if (!parsed.success) {
+      toast({ title: "Invalid Input", description: parsed.error.issues[0].message, variant: "destructive" });
+      return;
+    }
+    (mode === "login" ? loginMutation : registerMutation).mutate(parsed.data);
+  };
+
+  const fields = (mode: "login" | "register") => (
+    <form onSubmit={submit(mode)} className="space-y-4">
+      <div>
+        <Label htmlFor={`${mode}-username`} className="block text-sm font-medium mb-2">
+          Username
+        </Label>
+        <Input
+          id={`${mode}-username`}
+          autoComplete="username"
+          value={credentials.username}
+          onChange={(e) => setCredentials((prev) => ({ ...prev, username: e.target.value }))}
+          data-testid={`input-${mode}-username`}
+        />
+      </div>
+      <div>
+        <Label htmlFor={`${mode}-password`} className="block text-sm font-medium mb-2">
+          Password
+        </Label>
+        <Input
+          id={`${mode}-password`}
+          type="password"
+          autoComplete={mode === "login" ? "current-password" : "new-password"}
+          value={credentials.password}
+          onChange={(e) => setCredentials((prev) => ({ ...prev, password: e.target.value }))}
+          data-testid={`input-${mode}-password`}
+        />
+      </div>
+      <Button
+        type="submit"
+        className="w-full"
+        disabled={loginMutation.isPending || registerMutation.isPending}
+        data-testid={`button-${mode}`}
+      >
+        {mode === "login" ? "Sign In" : "Create Account"}
+      </Button>
+    </form>
+  );
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-md bg-background min-h-screen">
+      <header className="text-center mb-8">
+        <h1 className="text-3xl font-bold text-primary mb-2" data-testid="title-auth">
+          Staff Sign In
+        </h1>
+        <p className="text-muted-foreground" data-testid="text-auth-subtitle">
+          Estimating tools are for Torrance Roofing Masters staff.
+        </p>
+      </header>
+
+      <Card className="shadow-lg">
+        <CardContent className="p-6">
+          {/* Only the first account is created here; admins add everyone else from the Users page */}
+          {setup?.needsAdmin ? (
+            <Tabs defaultValue="register">
+              <TabsList className="grid w-full grid-cols-2 mb-6">
+                <TabsTrigger value="login" data-testid="tab-login">Sign In</TabsTrigger>
+                <TabsTrigger value="register" data-testid="tab-register">Create Account</TabsTrigger>
+              </TabsList>
+              <TabsContent value="login">{fields("login")}</TabsContent>
+              <TabsContent value="register">
+                <p className="text-sm text-muted-foreground mb-4">
+                  There are no accounts yet. The one you create becomes the admin.
+                </p>
+                {fields("register")}
+              </TabsContent>
+            </Tabs>
+          ) : (
+            <>
+              {fields("login")}
+              <p className="text-sm text-muted-foreground mt-4" data-testid="text-auth-no-account">
+                No account yet? Ask an admin to add you from the Users page.
+              </p>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+import { useEffect, useRef } from "react";
+import RoofingCalculator from "@/components/RoofingCalculator";
+import { postEmbedEvent } from "@/lib/embed-events";
+
+// The calculator as framed by /embed.js on the marketing site. Reports its
+// height so the loader can size the iframe to fit without scrollbars.
+export default function EmbedPage() {
+  const contentRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const content = contentRef.current;
+    if (!content) {
+      return;
+    }
+    const observer = new ResizeObserver(() => {
+      postEmbedEvent({ type: "resize", height: content.scrollHeight });
+    });
+    observer.observe(content);
+    postEmbedEvent({ type: "ready" });
+    return () => observer.disconnect();
+  }, []);
+
+  return (
+    <div ref={contentRef}>
+      <RoofingCalculator embedded />
+    </div>
+  );
+}
@@ -0,0 +1,9 @@
+import { useParams } from "wouter";
+import RoofingCalculator from "@/components/RoofingCalculator";
+
+export default function EstimateEditor() {
+  const { id } = useParams<{ id: string }>();
+
+  // Keyed so switching estimates starts from a fresh form
+  return <RoofingCalculator key={id} estimateId={id} />;
+}
@@ -0,0 +1,224 @@
+import { useRef, useState, type ChangeEvent } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { format } from "date-fns";
+import { Download, Plus, Trash2, Upload } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { fromZodError } from "zod-validation-error";
+import { estimateExportSchema, localizeZodError, type EstimateWithCustomer } from "@shared/schema";
+import { formatCurrency } from "@shared/i18n";
+
+export default function Estimates() {
+  const { toast } = useToast();
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const { data: estimates = [], isLoading } = useQuery<EstimateWithCustomer[]>({
+    queryKey: ["/api/estimates"],
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (estimate: EstimateWithCustomer) => {
+      await apiRequest("DELETE", `/api/estimates/${estimate.id}`);
+      return estimate;
+    },
+    onSuccess: (estimate) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/estimates"] });
+      toast({ title: "Estimate Deleted", description: estimate.title });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Delete Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (file: File) => {
+      let contents: unknown;
+      try {
+        contents = JSON.parse(await file.text());
+      } catch {
+        throw new Error(`${file.name} is not a JSON file`);
+      }
+      // Checked here too so a wrong file is reported before anything is uploaded
+      const parsed = estimateExportSchema.safeParse(contents);
+      if (!parsed.success) {
+        throw new Error(fromZodError(localizeZodError(parsed.error)).message);
+      }
+      const res = await apiRequest("POST", "/api/estimates/import", contents);
+      return (await res.json()) as EstimateWithCustomer[];
+    },
+    onSuccess: (imported) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/estimates"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/customers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reports/estimates"] });
+      toast({
+        title: "Estimates Imported",
+        description: `${imported.length} estimate${imported.length === 1 ? "" : "s"} added.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Import Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleImport = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (file) {
+      importMutation.mutate(file);
+    }
+  };
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (checked) {
+        next.add(id);
+      } else {
+        next.delete(id);
+      }
+      return next;
+    });
+  };
+
+  // Only ids still in the list count, in case a selected estimate was deleted
+  const selectedIds = estimates.filter((estimate) => selected.has(estimate.id)).map((estimate) => estimate.id);
+  const allSelected = estimates.length > 0 && selectedIds.length === estimates.length;
+  const exportUrl = (fileFormat: "csv" | "json") =>
+    `/api/estimates/export?format=${fileFormat}${selectedIds.length > 0 ? `&ids=${selectedIds.join(",")}` : ""}`;
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-5xl bg-background min-h-screen">
+      <header className="mb-8 flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-primary mb-2" data-testid="title-estimates">
+            Saved Estimates
+          </h1>
+          <p className="text-muted-foreground" data-testid="text-estimates-subtitle">
+            Each estimate keeps the price book version it was quoted with.
+          </p>
+        </div>
+        <div className="flex flex-wrap justify-end gap-2">
+          <Button
+            variant="outline"
+            onClick={() => fileInput.current?.click()}
+            disabled={importMutation.isPending}
+            data-testid="button-import-estimates"
+          >
+            <Upload className="w-4 h-4 mr-2" />
+            {importMutation.isPending ? "Importing..." : "Import JSON"}
+          </Button>
+          <input
+            ref={fileInput}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={handleImport}
+            data-testid="input-import-file"
+          />
+          <Button asChild data-testid="button-new-estimate">
+            <Link href="/">
+              <Plus className="w-4 h-4 mr-2" />
+              New Estimate
+            </Link>
+          </Button>
+        </div>
+      </header>
+
+      {estimates.length > 0 && (
+        <div className="flex flex-wrap items-center justify-end gap-2 mb-4" data-testid="toolbar-export">
+          <span className="text-sm text-muted-foreground mr-2" data-testid="text-export-scope">
+            {selectedIds.length > 0
+              ? `Export ${selectedIds.length} selected:`
+              : `Export all ${estimates.length}:`}
+          </span>
+          <Button variant="outline" size="sm" asChild data-testid="button-export-csv">
+            <a href={exportUrl("csv")} download>
+              <Download className="w-4 h-4 mr-2" />
+              CSV
+            </a>
+          </Button>
+          <Button variant="outline" size="sm" asChild data-testid="button-export-json">
+            <a href={exportUrl("json")} download>
+              <Download className="w-4 h-4 mr-2" />
+              JSON
+            </a>
+          </Button>
+        </div>
+      )}
+
+      <Card className="shadow-lg">
+        <CardContent className="p-6">
+          {isLoading ? (
+            <p className="text-muted-foreground">Loading estimates...</p>
+          ) : estimates.length === 0 ? (
+            <p className="text-muted-foreground" data-testid="text-no-estimates">
+              No saved estimates yet.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-10">
+                    <Checkbox
+                      checked={allSelected}
+                      onCheckedChange={(checked) =>
+                        setSelected(new Set(checked === true ? estimates.map((estimate) => estimate.id) : []))
+                      }
+                      aria-label="Select all estimates"
+                      data-testid="checkbox-select-all"
+                    />
+                  </TableHead>
+                  <TableHead>Title</TableHead>
+                  <TableHead>Customer</TableHead>
+                  <TableHead>Midpoint</TableHead>
+                  <TableHead>Updated</TableHead>
+                  <TableHead className="sr-only">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {estimates.map((estimate) => (
+                  <TableRow key={estimate.id} data-testid={`row-estimate-${estimate.id}`}>
+                    <TableCell>
+                      <Checkbox
+                        checked={selected.has(estimate.id)}
+                        onCheckedChange={(checked) => toggleSelected(estimate.id, checked === true)}
+                        aria-label={`Select ${estimate.title}`}
+                        data-testid={`checkbox-select-${estimate.id}`}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Link href={`/estimates/${estimate.id}`} className="font-medium text-primary hover:underline">
+                        {estimate.title}
+                      </Link>
+                    </TableCell>
+                    <TableCell>{estimate.customer?.name ?? "—"}</TableCell>
+                    <TableCell>{formatCurrency(estimate.breakdown.totalMid)}</TableCell>
+                    <TableCell>{format(new Date(estimate.updatedAt), "PP")}</TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => deleteMutation.mutate(estimate)}
+                        disabled={deleteMutation.isPending}
+                        aria-label={`Delete ${estimate.title}`}
+                        data-testid={`button-delete-${estimate.id}`}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
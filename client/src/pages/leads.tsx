@@ -0,0 +1,176 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { contactTimeLabels, leadStatusLabels } from "@/lib/lead-labels";
+import { useToast } from "@/hooks/use-toast";
+import { materialLabels } from "@shared/roofing-calculations";
+import { leadStatusSchema, type Lead, type LeadStatus } from "@shared/schema";
+import { formatCurrency, formatNumber, localeNames } from "@shared/i18n";
+
+function LeadDetails({ lead }: { lead: Lead }) {
+  const { toast } = useToast();
+  const { formData, breakdown } = lead;
+
+  const statusMutation = useMutation({
+    mutationFn: async (status: LeadStatus) => {
+      const res = await apiRequest("PATCH", `/api/leads/${lead.id}`, { status });
+      return (await res.json()) as Lead;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Update Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const details: [string, string][] = [
+    ["Phone", lead.phone ?? "—"],
+    ["Email", lead.email ?? "—"],
+    ["Address", lead.address ?? "—"],
+    ["Best time", contactTimeLabels[lead.preferredContactTime]],
+    ["Language", localeNames[lead.language]],
+    ["Received", format(new Date(lead.createdAt), "PPp")],
+  ];
+  const project: [string, string][] = [
+    ["Type", formData.roofingType === "residential" ? "Residential" : "Commercial"],
+    ["Material", materialLabels[formData.roofingType][formData.material] ?? formData.material],
+    ["Roof size", `${formatNumber(formData.roofSize)} sq ft`],
+    ["Job", formData.jobType],
+    ["Complexity", formData.complexity],
+    ["Tear-off", formData.tearoff ? "Yes" : "No"],
+    ["Permits", formData.permits ? "Yes" : "No"],
+    ["Region", breakdown.region],
+  ];
+
+  return (
+    <Card className="shadow-lg" data-testid={`card-lead-${lead.id}`}>
+      <CardContent className="p-6">
+        <div className="flex items-start justify-between gap-4 mb-4">
+          <h2 className="text-xl font-semibold text-card-foreground" data-testid="title-lead-name">
+            {lead.name}
+          </h2>
+          <Select value={lead.status} onValueChange={(status) => statusMutation.mutate(status as LeadStatus)}>
+            <SelectTrigger className="w-36" data-testid="select-lead-status">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {leadStatusSchema.options.map((status) => (
+                <SelectItem key={status} value={status}>
+                  {leadStatusLabels[status]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <dl className="grid grid-cols-3 gap-x-4 gap-y-1 text-sm mb-6">
+          {details.map(([label, value]) => (
+            <div key={label} className="contents">
+              <dt className="text-muted-foreground">{label}</dt>
+              <dd className="col-span-2 break-words">{value}</dd>
+            </div>
+          ))}
+        </dl>
+
+        <h3 className="text-lg font-medium mb-2 text-card-foreground">Their Estimate</h3>
+        <dl className="grid grid-cols-3 gap-x-4 gap-y-1 text-sm mb-4">
+          {project.map(([label, value]) => (
+            <div key={label} className="contents">
+              <dt className="text-muted-foreground">{label}</dt>
+              <dd className="col-span-2 capitalize">{value}</dd>
+            </div>
+          ))}
+        </dl>
+        <div className="flex justify-between items-center py-3 border-t-2 border-primary">
+          <span className="font-semibold">Total Range:</span>
+          <span className="font-bold text-primary" data-testid="text-lead-total-range">
+            {formatCurrency(breakdown.totalLow)} - {formatCurrency(breakdown.totalHigh)}
+          </span>
+        </div>
+        <div className="space-y-1 text-sm">
+          {breakdown.lineItems.map((item, index) => (
+            <div key={index} className="flex justify-between" data-testid={`lead-line-item-${index}`}>
+              <span>{item.description}</span>
+              <span className="text-muted-foreground">{formatCurrency(item.mid)}</span>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function Leads() {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const { data: leads = [], isLoading } = useQuery<Lead[]>({
+    queryKey: ["/api/leads"],
+  });
+
+  const selected = leads.find((lead) => lead.id === selectedId) ?? leads[0];
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-5xl bg-background min-h-screen">
+      <header className="mb-8">
+        <h1 className="text-3xl font-bold text-primary mb-2" data-testid="title-leads">
+          Lead Inbox
+        </h1>
+        <p className="text-muted-foreground" data-testid="text-leads-subtitle">
+          Quote requests from the calculator, with the estimate each homeowner built.
+        </p>
+      </header>
+
+      {isLoading ? (
+        <p className="text-muted-foreground">Loading leads...</p>
+      ) : leads.length === 0 ? (
+        <p className="text-muted-foreground" data-testid="text-no-leads">
+          No quote requests yet.
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 items-start">
+          <Card className="shadow-lg">
+            <CardContent className="p-6">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Midpoint</TableHead>
+                    <TableHead>Received</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {leads.map((lead) => (
+                    <TableRow
+                      key={lead.id}
+                      className={`cursor-pointer ${lead.id === selected?.id ? "bg-muted/50" : ""}`}
+                      onClick={() => setSelectedId(lead.id)}
+                      data-testid={`row-lead-${lead.id}`}
+                    >
+                      <TableCell className="font-medium">{lead.name}</TableCell>
+                      <TableCell>{formatCurrency(lead.breakdown.totalMid)}</TableCell>
+                      <TableCell>{format(new Date(lead.createdAt), "PP")}</TableCell>
+                      <TableCell>
+                        <Badge variant={lead.status === "new" ? "default" : "outline"}>
+                          {leadStatusLabels[lead.status]}
+                        </Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          {selected && <LeadDetails key={selected.id} lead={selected} />}
+        </div>
+      )}
+    </div>
+  );
+}
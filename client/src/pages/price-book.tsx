@@ -0,0 +1,323 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  publishPriceBookSchema,
+  type InsertPriceBookEntry,
+  type InsertPriceBookRate,
+  type PriceBookEntry,
+  type PriceBookRate,
+  type PriceBookSnapshot,
+  type PriceBookVersion,
+  type PublishPriceBook,
+} from "@shared/schema";
+import { unitRateItems } from "@shared/roofing-calculations";
+import type { UnitRateItem } from "@shared/roofing";
+
+const entryKey = (entry: InsertPriceBookEntry) => `${entry.roofingType}-${entry.material}`;
+
+interface PriceBookRowProps {
+  entry: PriceBookEntry;
+  draft?: InsertPriceBookEntry;
+  onChange: (draft: InsertPriceBookEntry) => void;
+}
+
+function PriceBookRow({ entry, draft, onChange }: PriceBookRowProps) {
+  const value = draft ?? entry;
+  const update = (changes: Partial<InsertPriceBookEntry>) =>
+    onChange({
+      roofingType: entry.roofingType,
+      material: entry.material,
+      label: value.label,
+      lowCost: value.lowCost,
+      highCost: value.highCost,
+      laborLowCost: value.laborLowCost,
+      laborHighCost: value.laborHighCost,
+      ...changes,
+    });
+
+  const testId = entryKey(entry);
+  const costFields: { field: "lowCost" | "highCost" | "laborLowCost" | "laborHighCost"; testId: string }[] = [
+    { field: "lowCost", testId: "low" },
+    { field: "highCost", testId: "high" },
+    { field: "laborLowCost", testId: "labor-low" },
+    { field: "laborHighCost", testId: "labor-high" },
+  ];
+
+  return (
+    <TableRow className={draft ? "bg-muted/50" : undefined} data-testid={`row-price-${testId}`}>
+      <TableCell className="capitalize">{entry.roofingType}</TableCell>
+      <TableCell>
+        <Input
+          value={value.label}
+          onChange={(e) => update({ label: e.target.value })}
+          data-testid={`input-label-${testId}`}
+        />
+      </TableCell>
+      {costFields.map(({ field, testId: fieldTestId }) => (
+        <TableCell key={field}>
+          <Input
+            type="number"
+            min="0"
+            step="0.25"
+            value={value[field]}
+            onChange={(e) => update({ [field]: parseFloat(e.target.value) || 0 })}
+            data-testid={`input-${fieldTestId}-${testId}`}
+          />
+        </TableCell>
+      ))}
+    </TableRow>
+  );
+}
+
+interface UnitRateRowProps {
+  rate: PriceBookRate;
+  draft?: InsertPriceBookRate;
+  onChange: (draft: InsertPriceBookRate) => void;
+}
+
+function UnitRateRow({ rate, draft, onChange }: UnitRateRowProps) {
+  const value = draft ?? rate;
+  const { label, unit } = unitRateItems[rate.item];
+  const update = (changes: Partial<InsertPriceBookRate>) =>
+    onChange({ item: rate.item, lowCost: value.lowCost, highCost: value.highCost, ...changes });
+
+  return (
+    <TableRow className={draft ? "bg-muted/50" : undefined} data-testid={`row-rate-${rate.item}`}>
+      <TableCell>{label}</TableCell>
+      <TableCell>{unit}</TableCell>
+      <TableCell>
+        <Input
+          type="number"
+          min="0"
+          step="0.25"
+          value={value.lowCost}
+          onChange={(e) => update({ lowCost: parseFloat(e.target.value) || 0 })}
+          data-testid={`input-rate-low-${rate.item}`}
+        />
+      </TableCell>
+      <TableCell>
+        <Input
+          type="number"
+          min="0"
+          step="0.25"
+          value={value.highCost}
+          onChange={(e) => update({ highCost: parseFloat(e.target.value) || 0 })}
+          data-testid={`input-rate-high-${rate.item}`}
+        />
+      </TableCell>
+    </TableRow>
+  );
+}
+
+export default function PriceBook() {
+  const { toast } = useToast();
+  const [drafts, setDrafts] = useState<Record<string, InsertPriceBookEntry>>({});
+  const [rateDrafts, setRateDrafts] = useState<Partial<Record<UnitRateItem, InsertPriceBookRate>>>({});
+  const [versionLabel, setVersionLabel] = useState("");
+  const [effectiveFrom, setEffectiveFrom] = useState(() => format(new Date(), "yyyy-MM-dd"));
+
+  const { data: priceBook, isLoading } = useQuery<PriceBookSnapshot>({
+    queryKey: ["/api/pricebook"],
+  });
+  const { data: versions = [] } = useQuery<PriceBookVersion[]>({
+    queryKey: ["/api/pricebook/versions"],
+  });
+
+  const publishMutation = useMutation({
+    mutationFn: async (data: PublishPriceBook) => {
+      const res = await apiRequest("POST", "/api/pricebook/versions", data);
+      return (await res.json()) as PriceBookSnapshot;
+    },
+    onSuccess: ({ version }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/pricebook"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/pricebook/versions"] });
+      setDrafts({});
+      setRateDrafts({});
+      setVersionLabel("");
+      toast({
+        title: "Prices Published",
+        description: `${version.label} takes effect ${format(new Date(version.effectiveFrom), "PP")}`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Publish Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const publish = () => {
+    const parsed = publishPriceBookSchema.safeParse({
+      label: versionLabel,
+      effectiveFrom: effectiveFrom,
+      entries: Object.values(drafts),
+      rates: Object.values(rateDrafts),
+    });
+    if (!parsed.success) {
+      toast({ title: "Invalid Price Book", description: parsed.error.issues[0].message, variant: "destructive" });
+      return;
+    }
+    publishMutation.mutate(parsed.data);
+  };
+
+  const now = new Date();
+  const changeCount = Object.keys(drafts).length + Object.keys(rateDrafts).length;
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-5xl bg-background min-h-screen">
+      <header className="mb-8">
+        <h1 className="text-3xl font-bold text-primary mb-2" data-testid="title-price-book">
+          Price Book
+        </h1>
+        <p className="text-muted-foreground" data-testid="text-price-book-subtitle">
+          Estimates price each line as quantity times unit rate. Published changes become a new version, so saved
+          estimates keep the prices they were quoted at.
+        </p>
+      </header>
+
+      <div className="space-y-6">
+        <Card className="shadow-lg">
+          <CardContent className="p-6">
+            {isLoading || !priceBook ? (
+              <p className="text-muted-foreground">Loading price book...</p>
+            ) : (
+              <>
+                <p className="text-sm text-muted-foreground mb-4" data-testid="text-current-version">
+                  Current version: <strong>{priceBook.version.label}</strong>, effective{" "}
+                  {format(new Date(priceBook.version.effectiveFrom), "PP")}
+                </p>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Type</TableHead>
+                      <TableHead>Material</TableHead>
+                      <TableHead>Material Low ($/sq ft)</TableHead>
+                      <TableHead>Material High ($/sq ft)</TableHead>
+                      <TableHead>Labor Low ($/sq ft)</TableHead>
+                      <TableHead>Labor High ($/sq ft)</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {priceBook.entries.map((entry) => (
+                      <PriceBookRow
+                        key={entry.id}
+                        entry={entry}
+                        draft={drafts[entryKey(entry)]}
+                        onChange={(draft) => setDrafts((prev) => ({ ...prev, [entryKey(draft)]: draft }))}
+                      />
+                    ))}
+                  </TableBody>
+                </Table>
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="shadow-lg">
+          <CardContent className="p-6">
+            <h2 className="text-xl font-semibold mb-4 text-card-foreground" data-testid="title-unit-rates">
+              Unit Rates
+            </h2>
+            <p className="text-sm text-muted-foreground mb-4">
+              Accessories, add-ons and fees, the same for every material.
+            </p>
+            {priceBook && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Item</TableHead>
+                    <TableHead>Unit</TableHead>
+                    <TableHead>Low ($/unit)</TableHead>
+                    <TableHead>High ($/unit)</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {priceBook.rates.map((rate) => (
+                    <UnitRateRow
+                      key={rate.id}
+                      rate={rate}
+                      draft={rateDrafts[rate.item]}
+                      onChange={(draft) => setRateDrafts((prev) => ({ ...prev, [draft.item]: draft }))}
+                    />
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="shadow-lg">
+          <CardContent className="p-6">
+            <h2 className="text-xl font-semibold mb-4 text-card-foreground" data-testid="title-publish">
+              Publish Changes
+            </h2>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+              <div>
+                <Label htmlFor="version-label" className="block text-sm font-medium mb-2">
+                  Version Name
+                </Label>
+                <Input
+                  id="version-label"
+                  value={versionLabel}
+                  onChange={(e) => setVersionLabel(e.target.value)}
+                  placeholder="e.g. Supplier increase, March"
+                  data-testid="input-version-label"
+                />
+              </div>
+              <div>
+                <Label htmlFor="effective-from" className="block text-sm font-medium mb-2">
+                  Effective From
+                </Label>
+                <Input
+                  id="effective-from"
+                  type="date"
+                  value={effectiveFrom}
+                  onChange={(e) => setEffectiveFrom(e.target.value)}
+                  data-testid="input-effective-from"
+                />
+              </div>
+              <Button
+                onClick={publish}
+                disabled={changeCount === 0 || publishMutation.isPending}
+                data-testid="button-publish"
+              >
+                Publish {changeCount > 0 ? `${changeCount} Change${changeCount === 1 ? "" : "s"}` : "Changes"}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="shadow-lg">
+          <CardContent className="p-6">
+            <h2 className="text-xl font-semibold mb-4 text-card-foreground" data-testid="title-versions">
+              Versions
+            </h2>
+            <div className="space-y-2">
+              {versions.map((version) => (
+                <div
+                  key={version.id}
+                  className="flex justify-between items-center py-2 border-b border-border last:border-b-0"
+                  data-testid={`row-version-${version.id}`}
+                >
+                  <span className="font-medium">{version.label}</span>
+                  <span className="flex items-center gap-2 text-sm text-muted-foreground">
+                    {version.id === priceBook?.version.id && <Badge>Current</Badge>}
+                    {new Date(version.effectiveFrom) > now && <Badge variant="outline">Scheduled</Badge>}
+                    Effective {format(new Date(version.effectiveFrom), "PP")}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
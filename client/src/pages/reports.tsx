@@ -0,0 +1,192 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { materialLabels } from "@shared/roofing-calculations";
+import { type MaterialType } from "@shared/roofing";
+import { type EstimateReport, type EstimateWithCustomer } from "@shared/schema";
+import { formatCurrency, formatNumber } from "@shared/i18n";
+
+const materialLabel = (material: MaterialType) =>
+  materialLabels.residential[material] ?? materialLabels.commercial[material] ?? material;
+
+export default function Reports() {
+  const { toast } = useToast();
+
+  const { data: report, isLoading } = useQuery<EstimateReport>({
+    queryKey: ["/api/reports/estimates"],
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ estimate, approved }: { estimate: EstimateWithCustomer; approved: boolean }) => {
+      const res = await apiRequest("POST", `/api/estimates/${estimate.id}/discount/review`, { approved });
+      return (await res.json()) as EstimateWithCustomer;
+    },
+    onSuccess: (estimate) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/reports/estimates"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/estimates"] });
+      toast({
+        title: estimate.discountStatus === "approved" ? "Discount Approved" : "Discount Rejected",
+        description: estimate.title,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Review Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-5xl bg-background min-h-screen">
+      <header className="mb-8">
+        <h1 className="text-3xl font-bold text-primary mb-2" data-testid="title-reports">
+          Reports
+        </h1>
+        <p className="text-muted-foreground" data-testid="text-reports-subtitle">
+          Quoted totals use each estimate's midpoint after approved discounts.
+        </p>
+      </header>
+
+      {isLoading || !report ? (
+        <p className="text-muted-foreground">Loading reports...</p>
+      ) : (
+        <div className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <Card className="shadow-lg">
+              <CardContent className="p-6" data-testid="stat-estimate-count">
+                <div className="text-sm text-muted-foreground">Estimates</div>
+                <div className="text-2xl font-bold">{formatNumber(report.estimateCount)}</div>
+              </CardContent>
+            </Card>
+            <Card className="shadow-lg">
+              <CardContent className="p-6" data-testid="stat-quoted-total">
+                <div className="text-sm text-muted-foreground">Quoted</div>
+                <div className="text-2xl font-bold text-primary">{formatCurrency(report.quotedTotal)}</div>
+              </CardContent>
+            </Card>
+            <Card className="shadow-lg">
+              <CardContent className="p-6" data-testid="stat-discount-total">
+                <div className="text-sm text-muted-foreground">Discounts Given</div>
+                <div className="text-2xl font-bold">{formatCurrency(report.discountTotal)}</div>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card className="shadow-lg">
+            <CardContent className="p-6">
+              <h2 className="text-xl font-semibold mb-4 text-card-foreground" data-testid="title-pending-discounts">
+                Discounts Awaiting Approval
+              </h2>
+              {report.pendingDiscounts.length === 0 ? (
+                <p className="text-muted-foreground" data-testid="text-no-pending-discounts">
+                  Nothing to review.
+                </p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Estimate</TableHead>
+                      <TableHead>Customer</TableHead>
+                      <TableHead>Discount</TableHead>
+                      <TableHead>Midpoint</TableHead>
+                      <TableHead className="sr-only">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.pendingDiscounts.map((estimate) => (
+                      <TableRow key={estimate.id} data-testid={`row-pending-${estimate.id}`}>
+                        <TableCell>
+                          <Link href={`/estimates/${estimate.id}`} className="font-medium text-primary hover:underline">
+                            {estimate.title}
+                          </Link>
+                        </TableCell>
+                        <TableCell>{estimate.customer?.name ?? "—"}</TableCell>
+                        <TableCell>{estimate.discountPercent}%</TableCell>
+                        <TableCell>{formatCurrency(estimate.breakdown.totalMid)}</TableCell>
+                        <TableCell className="text-right space-x-2">
+                          <Button
+                            size="sm"
+                            onClick={() => reviewMutation.mutate({ estimate, approved: true })}
+                            disabled={reviewMutation.isPending}
+                            data-testid={`button-approve-${estimate.id}`}
+                          >
+                            Approve
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => reviewMutation.mutate({ estimate, approved: false })}
+                            disabled={reviewMutation.isPending}
+                            data-testid={`button-reject-${estimate.id}`}
+                          >
+                            Reject
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <Card className="shadow-lg">
+              <CardContent className="p-6">
+                <h2 className="text-xl font-semibold mb-4 text-card-foreground" data-testid="title-by-material">
+                  By Material
+                </h2>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Material</TableHead>
+                      <TableHead>Estimates</TableHead>
+                      <TableHead>Quoted</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.byMaterial.map((row) => (
+                      <TableRow key={row.material} data-testid={`row-material-${row.material}`}>
+                        <TableCell>{materialLabel(row.material)}</TableCell>
+                        <TableCell>{row.count}</TableCell>
+                        <TableCell>{formatCurrency(row.quotedTotal)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            <Card className="shadow-lg">
+              <CardContent className="p-6">
+                <h2 className="text-xl font-semibold mb-4 text-card-foreground" data-testid="title-by-estimator">
+                  By Estimator
+                </h2>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Estimator</TableHead>
+                      <TableHead>Estimates</TableHead>
+                      <TableHead>Quoted</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.byEstimator.map((row) => (
+                      <TableRow key={row.userId ?? "unassigned"} data-testid={`row-estimator-${row.userId ?? "unassigned"}`}>
+                        <TableCell>{row.username}</TableCell>
+                        <TableCell>{row.count}</TableCell>
+                        <TableCell>{formatCurrency(row.quotedTotal)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,227 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useParams } from "wouter";
+import { AlertCircle, CheckCircle2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import EstimateResults from "@/components/EstimateResults";
+import LanguageSwitcher from "@/components/LanguageSwitcher";
+import { ApiError, apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useLocale } from "@/hooks/use-locale";
+import { COMPANY, estimateDisclaimer } from "@shared/company";
+import {
+  applyDiscount,
+  materialLabels,
+  productLineOptions,
+  underlaymentOptions,
+  warrantyOptions,
+} from "@shared/roofing-calculations";
+import { type EstimateTier, type SharedEstimate, type TierLevel } from "@shared/schema";
+
+function TierOption({
+  tier,
+  selected,
+  accepted,
+  canAccept,
+  accepting,
+  onSelect,
+  onAccept,
+}: {
+  tier: EstimateTier;
+  selected: boolean;
+  accepted: boolean;
+  canAccept: boolean;
+  accepting: boolean;
+  onSelect: () => void;
+  onAccept: () => void;
+}) {
+  const { formData, breakdown } = tier;
+  const { t, term, formatCurrency } = useLocale();
+  return (
+    <Card
+      className={`cursor-pointer ${selected ? "border-primary border-2" : ""}`}
+      onClick={onSelect}
+      data-testid={`card-tier-${tier.level}`}
+    >
+      <CardContent className="p-4 space-y-2">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold">{t(`tier.${tier.level}`)}</h3>
+          {accepted && <CheckCircle2 className="w-5 h-5 text-primary" />}
+        </div>
+        <p className="text-2xl font-bold text-primary">{formatCurrency(breakdown.totalMid)}</p>
+        <ul className="text-sm text-muted-foreground space-y-1">
+          <li>{term(materialLabels[formData.roofingType][formData.material] ?? formData.material)}</li>
+          <li>
+            {t("option.productLine", { line: term(productLineOptions[formData.productLine ?? "standard"].label) })}
+          </li>
+          <li>{term(underlaymentOptions[formData.underlayment ?? "standard"].label)}</li>
+          <li>{term(warrantyOptions[formData.warranty ?? "standard"].label)}</li>
+        </ul>
+        {canAccept && (
+          <Button
+            className="w-full"
+            onClick={(e) => {
+              e.stopPropagation();
+              onAccept();
+            }}
+            disabled={accepting}
+            data-testid={`button-accept-${tier.level}`}
+          >
+            {t("shared.accept", { tier: t(`tier.${tier.level}`) })}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// Read-only view of a saved estimate for homeowners who were sent a share link
+export default function SharedEstimatePage() {
+  const { token } = useParams<{ token: string }>();
+  const { toast } = useToast();
+  const { locale, t, term, formatCurrency, formatDate, errorMessage } = useLocale();
+  const [viewing, setViewing] = useState<TierLevel | null>(null);
+
+  const { data: estimate, error, isLoading } = useQuery<SharedEstimate>({
+    queryKey: ["/api/shared-estimates", token],
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async (tier: TierLevel) => {
+      const res = await apiRequest("POST", `/api/shared-estimates/${token}/accept`, { tier });
+      return (await res.json()) as SharedEstimate;
+    },
+    onSuccess: (accepted) => {
+      queryClient.setQueryData(["/api/shared-estimates", token], accepted);
+      setViewing(null);
+      toast({ title: t("shared.thanks"), description: t("shared.thanksDescription", { company: COMPANY.name }) });
+    },
+    onError: (error: Error) => {
+      toast({ title: t("shared.notAccepted"), description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-2xl">
+        <p className="text-muted-foreground">{t("shared.loading")}</p>
+      </div>
+    );
+  }
+
+  if (!estimate) {
+    const expired = error instanceof ApiError && error.status === 410;
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-md">
+        <Card className="shadow-lg">
+          <CardContent className="p-6">
+            <div className="flex items-center gap-2 mb-4">
+              <AlertCircle className="h-6 w-6 text-destructive" />
+              <h1 className="text-xl font-semibold" data-testid="title-shared-estimate-unavailable">
+                {expired ? t("shared.expired") : t("shared.unavailable")}
+              </h1>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {expired ? t("shared.expiredHint") : t("shared.unavailableHint")} {t("shared.contactPrefix")}{" "}
+              <a href={COMPANY.contactUrl} className="text-primary hover:underline">
+                {t("shared.contact", { company: COMPANY.name })}
+              </a>
+              .
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const { tiers, acceptedTier, discountPercent } = estimate;
+  // Show the tier being looked at, else the accepted one, else the middle option
+  const shownTier = tiers.find((tier) => tier.level === (viewing ?? acceptedTier ?? "better"));
+  const { formData, breakdown } = shownTier ?? estimate;
+  const material = term(materialLabels[formData.roofingType][formData.material] ?? formData.material);
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-2xl bg-background min-h-screen">
+      <header className="text-center mb-8">
+        <div className="flex justify-end mb-2">
+          <LanguageSwitcher />
+        </div>
+        <p className="text-sm font-medium text-muted-foreground mb-1">{COMPANY.name}</p>
+        <h1 className="text-3xl font-bold text-primary mb-2" data-testid="title-shared-estimate">
+          {estimate.title}
+        </h1>
+        <p className="text-muted-foreground" data-testid="text-shared-estimate-subtitle">
+          {estimate.customerName && `${t("shared.preparedFor", { name: estimate.customerName })} · `}
+          {t("shared.summary", { size: formData.roofSize, material })} ·{" "}
+          {t("shared.updated", { date: formatDate(estimate.updatedAt, "medium") })}
+        </p>
+      </header>
+
+      <div className="space-y-6">
+        {tiers.length > 0 && (
+          <section data-testid="section-tiers">
+            <h2 className="text-xl font-semibold mb-1">
+              {acceptedTier ? t("shared.chosen", { tier: t(`tier.${acceptedTier}`) }) : t("shared.choose")}
+            </h2>
+            <p className="text-sm text-muted-foreground mb-4">
+              {t("shared.chooseHint")}
+            </p>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              {tiers.map((tier) => (
+                <TierOption
+                  key={tier.level}
+                  tier={tier}
+                  selected={tier.level === shownTier?.level}
+                  accepted={tier.level === acceptedTier}
+                  canAccept={!acceptedTier}
+                  accepting={acceptMutation.isPending}
+                  onSelect={() => setViewing(tier.level)}
+                  onAccept={() => acceptMutation.mutate(tier.level)}
+                />
+              ))}
+            </div>
+          </section>
+        )}
+
+        <EstimateResults results={breakdown} showTakeoff={false}>
+          {discountPercent > 0 && (
+            <div
+              className="flex justify-between items-center py-2 mb-2"
+              data-testid="text-shared-discounted-total"
+            >
+              <span className="text-lg font-semibold">{t("shared.yourPrice", { percent: discountPercent })}</span>
+              <span className="text-xl font-bold text-primary">
+                {formatCurrency(applyDiscount(breakdown.totalMid, discountPercent))}
+              </span>
+            </div>
+          )}
+          {estimate.expiresAt && (
+            <p className="text-xs text-muted-foreground" data-testid="text-shared-estimate-expiry">
+              {t("shared.expiry", { date: formatDate(estimate.expiresAt) })}
+            </p>
+          )}
+        </EstimateResults>
+
+        <Card className="bg-muted border-border">
+          <CardContent className="p-4">
+            <p className="text-sm text-muted-foreground" data-testid="text-disclaimer">
+              <strong>{t("disclaimer.label")}</strong> {estimateDisclaimer(breakdown.region, locale)}{" "}
+              {t("disclaimer.firmQuote")}{" "}
+              <a
+                href={COMPANY.contactUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-primary hover:underline"
+                data-testid="link-contact"
+              >
+                {COMPANY.name}
+              </a>
+              .
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
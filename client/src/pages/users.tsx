@@ -0,0 +1,189 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { roleLabels } from "@shared/permissions";
+import {
+  createUserSchema,
+  userRoleSchema,
+  type CreateUser,
+  type SafeUser,
+  type UserRole,
+} from "@shared/schema";
+
+const emptyUser: CreateUser = { username: "", password: "", role: "estimator" };
+
+function RoleSelect({
+  value,
+  onChange,
+  disabled,
+  testId,
+}: {
+  value: UserRole;
+  onChange: (role: UserRole) => void;
+  disabled?: boolean;
+  testId: string;
+}) {
+  return (
+    <Select value={value} onValueChange={(role) => onChange(role as UserRole)} disabled={disabled}>
+      <SelectTrigger data-testid={testId}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {userRoleSchema.options.map((role) => (
+          <SelectItem key={role} value={role}>
+            {roleLabels[role]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+export default function Users() {
+  const { user: currentUser } = useAuth();
+  const { toast } = useToast();
+  const [newUser, setNewUser] = useState<CreateUser>(emptyUser);
+
+  const { data: users = [], isLoading } = useQuery<SafeUser[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const roleMutation = useMutation({
+    mutationFn: async ({ id, role }: { id: string; role: UserRole }) => {
+      const res = await apiRequest("PATCH", `/api/users/${id}`, { role });
+      return (await res.json()) as SafeUser;
+    },
+    onSuccess: (user) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({ title: "Role Updated", description: `${user.username} is now ${roleLabels[user.role]}` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Update Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (data: CreateUser) => {
+      const res = await apiRequest("POST", "/api/register", data);
+      return (await res.json()) as SafeUser;
+    },
+    onSuccess: (user) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      setNewUser(emptyUser);
+      toast({ title: "User Added", description: user.username });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Add User Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const addUser = () => {
+    const parsed = createUserSchema.safeParse(newUser);
+    if (!parsed.success) {
+      toast({ title: "Invalid User", description: parsed.error.issues[0].message, variant: "destructive" });
+      return;
+    }
+    createMutation.mutate(parsed.data);
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-5xl bg-background min-h-screen">
+      <header className="mb-8">
+        <h1 className="text-3xl font-bold text-primary mb-2" data-testid="title-users">
+          Users
+        </h1>
+        <p className="text-muted-foreground" data-testid="text-users-subtitle">
+          Estimators create and edit estimates, sales managers also approve discounts and see reports, and admins
+          manage the price book and users.
+        </p>
+      </header>
+
+      <div className="space-y-6">
+        <Card className="shadow-lg">
+          <CardContent className="p-6">
+            {isLoading ? (
+              <p className="text-muted-foreground">Loading users...</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Username</TableHead>
+                    <TableHead className="w-56">Role</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {users.map((user) => (
+                    <TableRow key={user.id} data-testid={`row-user-${user.id}`}>
+                      <TableCell className="font-medium">{user.username}</TableCell>
+                      <TableCell>
+                        <RoleSelect
+                          value={user.role}
+                          onChange={(role) => roleMutation.mutate({ id: user.id, role })}
+                          disabled={user.id === currentUser?.id || roleMutation.isPending}
+                          testId={`select-role-${user.id}`}
+                        />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="shadow-lg">
+          <CardContent className="p-6">
+            <h2 className="text-xl font-semibold mb-4 text-card-foreground" data-testid="title-add-user">
+              Add User
+            </h2>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+              <div>
+                <Label htmlFor="new-username" className="block text-sm font-medium mb-2">
+                  Username
+                </Label>
+                <Input
+                  id="new-username"
+                  value={newUser.username}
+                  onChange={(e) => setNewUser((prev) => ({ ...prev, username: e.target.value }))}
+                  data-testid="input-new-username"
+                />
+              </div>
+              <div>
+                <Label htmlFor="new-password" className="block text-sm font-medium mb-2">
+                  Temporary Password
+                </Label>
+                <Input
+                  id="new-password"
+                  type="password"
+                  autoComplete="new-password"
+                  value={newUser.password}
+                  onChange={(e) => setNewUser((prev) => ({ ...prev, password: e.target.value }))}
+                  data-testid="input-new-password"
+                />
+              </div>
+              <div>
+                <Label className="block text-sm font-medium mb-2">Role</Label>
+                <RoleSelect
+                  value={newUser.role}
+                  onChange={(role) => setNewUser((prev) => ({ ...prev, role }))}
+                  testId="select-new-role"
+                />
+              </div>
+              <Button onClick={addUser} disabled={createMutation.isPending} data-testid="button-add-user">
+                Add User
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import session from "express-session";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { fromZodError } from "zod-validation-error";
+import type { Express, NextFunction, Request, Response } from "express";
+import { storage } from "./storage";
+import { hasPermission, type Permission } from "@shared/permissions";
+import {
+  createUserSchema,
+  loginSchema,
+  type AuthSetup,
+  type SafeUser,
+  type User as SelectUser,
+} from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+// Stored as "<hash>.<salt>" so each password gets its own salt
+export async function hashPassword(password: string) {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+export async function comparePasswords(supplied: string, stored: string) {
+  const [hashed, salt] = stored.split(".");
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return timingSafeEqual(hashedBuf, suppliedBuf);
+}
+
+export function toSafeUser({ password, ...user }: SelectUser): SafeUser {
+  return user;
+}
+
+function sessionSecret() {
+  if (process.env.SESSION_SECRET) {
+    return process.env.SESSION_SECRET;
+  }
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+  return "roofing-calculator-dev-secret";
+}
+
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Please sign in to continue" });
+  }
+  next();
+}
+
+export function requirePermission(permission: Permission) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Please sign in to continue" });
+    }
+    if (!hasPermission(req.user, permission)) {
+      return res.status(403).json({ message: "You don't have access to this" });
+    }
+    next();
+  };
+}
+
+export function setupAuth(app: Express) {
+  const sessionSettings: session.SessionOptions = {
+    secret: sessionSecret(),
+    resave: false,
+    saveUninitialized: false,
+    store: storage.sessionStore,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: app.get("env") === "production",
+      maxAge: 7 * 24 * 60 * 60 * 1000,
+    },
+  };
+
+  app.set("trust proxy", 1);
+  app.use(session(sessionSettings));
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username);
+        if (!user || !(await comparePasswords(password, user.password))) {
+          return done(null, false);
+        }
+        return done(null, user);
+      } catch (err) {
+        return done(err);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user ?? false);
+    } catch (err) {
+      done(err);
+    }
+  });
+
+  app.get("/api/setup", async (_req, res, next) => {
+    try {
+      const setup: AuthSetup = { needsAdmin: (await storage.getUsers()).length === 0 };
+      res.json(setup);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  // The first account becomes the admin; after that only admins can add users
+  app.post("/api/register", async (req, res, next) => {
+    try {
+      const parsed = createUserSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).message });
+      }
+
+      const isFirstUser = (await storage.getUsers()).length === 0;
+      if (!isFirstUser && !hasPermission(req.user, "users:manage")) {
+        return res.status(403).json({ message: "Ask an admin to create your account" });
+      }
+      if (await storage.getUserByUsername(parsed.data.username)) {
+        return res.status(400).json({ message: "Username already exists" });
+      }
+
+      const user = await storage.createUser({
+        ...parsed.data,
+        role: isFirstUser ? "admin" : parsed.data.role,
+        password: await hashPassword(parsed.data.password),
+      });
+
+      // Admins adding a colleague stay signed in as themselves
+      if (req.isAuthenticated()) {
+        return res.status(201).json(toSafeUser(user));
+      }
+      req.login(user, (err) => {
+        if (err) return next(err);
+        res.status(201).json(toSafeUser(user));
+      });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.post("/api/login", (req, res, next) => {
+    const parsed = loginSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    passport.authenticate("local", (err: unknown, user: SelectUser | false) => {
+      if (err) return next(err);
+      if (!user) {
+        return res.status(401).json({ message: "Invalid username or password" });
+      }
+      req.login(user, (loginErr) => {
+        if (loginErr) return next(loginErr);
+        res.json(toSafeUser(user));
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/logout", (req, res, next) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      res.sendStatus(200);
+    });
+  });
+
+  app.get("/api/me", requireAuth, (req, res) => {
+    res.json(toSafeUser(req.user!));
+  });
+}
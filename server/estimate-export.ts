@@ -0,0 +1,118 @@
+import { applyDiscount, materialLabels } from "@shared/roofing-calculations";
+import {
+  ESTIMATE_EXPORT_FORMAT,
+  ESTIMATE_EXPORT_VERSION,
+  type EstimateExport,
+  type EstimateWithCustomer,
+  type ExportedEstimate,
+  type PriceBookVersion,
+} from "@shared/schema";
+
+function toExportedEstimate(
+  estimate: EstimateWithCustomer,
+  version: PriceBookVersion | undefined,
+): ExportedEstimate {
+  const { customer } = estimate;
+  return {
+    id: estimate.id,
+    title: estimate.title,
+    customer: customer && {
+      name: customer.name,
+      email: customer.email,
+      phone: customer.phone,
+      address: customer.address,
+      language: customer.language,
+    },
+    formData: estimate.formData,
+    breakdown: estimate.breakdown,
+    priceBook: { id: estimate.priceBookVersionId, label: version?.label ?? "" },
+    discountPercent: estimate.discountPercent,
+    discountStatus: estimate.discountStatus,
+    tiers: estimate.tiers,
+    acceptedTier: estimate.acceptedTier,
+    acceptedAt: estimate.acceptedAt,
+    createdAt: estimate.createdAt,
+    updatedAt: estimate.updatedAt,
+  };
+}
+
+// Everything needed to recreate the estimates elsewhere; see exportedEstimateSchema
+export function buildEstimateExport(
+  estimates: EstimateWithCustomer[],
+  versions: PriceBookVersion[],
+): EstimateExport {
+  const byId = new Map(versions.map((version) => [version.id, version]));
+  return {
+    format: ESTIMATE_EXPORT_FORMAT,
+    version: ESTIMATE_EXPORT_VERSION,
+    exportedAt: new Date(),
+    estimates: estimates.map((estimate) =>
+      toExportedEstimate(estimate, byId.get(estimate.priceBookVersionId)),
+    ),
+  };
+}
+
+type CsvValue = string | number | boolean | null | undefined;
+
+// Quotes per RFC 4180. Text that a spreadsheet would run as a formula is
+// prefixed with an apostrophe.
+function csvCell(value: CsvValue): string {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  if (typeof value !== "string") {
+    return String(value);
+  }
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+const CSV_COLUMNS: [string, (estimate: EstimateWithCustomer) => CsvValue][] = [
+  ["ID", (e) => e.id],
+  ["Title", (e) => e.title],
+  ["Customer", (e) => e.customer?.name],
+  ["Email", (e) => e.customer?.email],
+  ["Phone", (e) => e.customer?.phone],
+  ["Address", (e) => e.customer?.address],
+  ["Roofing Type", (e) => e.formData.roofingType],
+  ["Material", (e) => materialLabels[e.formData.roofingType][e.formData.material] ?? e.formData.material],
+  ["Roof Size (sq ft)", (e) => e.formData.roofSize],
+  ["Job Type", (e) => e.formData.jobType],
+  ["Complexity", (e) => e.formData.complexity],
+  ["Tear-off", (e) => e.formData.tearoff],
+  ["Permits", (e) => e.formData.permits],
+  ["ZIP Code", (e) => e.formData.zipCode],
+  ["Product Line", (e) => e.formData.productLine ?? "standard"],
+  ["Underlayment", (e) => e.formData.underlayment ?? "standard"],
+  ["Warranty", (e) => e.formData.warranty ?? "standard"],
+  ["Region", (e) => e.breakdown.region],
+  ["Materials", (e) => Math.round(e.breakdown.materials)],
+  ["Labor", (e) => Math.round(e.breakdown.labor)],
+  ["Add-ons", (e) => Math.round(e.breakdown.addons)],
+  ["Total Low", (e) => Math.round(e.breakdown.totalLow)],
+  ["Total Mid", (e) => Math.round(e.breakdown.totalMid)],
+  ["Total High", (e) => Math.round(e.breakdown.totalHigh)],
+  ["Discount %", (e) => e.discountPercent],
+  ["Discount Status", (e) => e.discountStatus],
+  [
+    "Quoted Total",
+    (e) =>
+      Math.round(
+        e.discountStatus === "approved"
+          ? applyDiscount(e.breakdown.totalMid, e.discountPercent)
+          : e.breakdown.totalMid,
+      ),
+  ],
+  ["Accepted Tier", (e) => e.acceptedTier],
+  ["Created", (e) => e.createdAt.toISOString()],
+  ["Updated", (e) => e.updatedAt.toISOString()],
+];
+
+// One row per estimate, for spreadsheets. Not re-importable; use the JSON export for that.
+export function estimatesToCsv(estimates: EstimateWithCustomer[]): string {
+  const rows = [
+    CSV_COLUMNS.map(([header]) => header),
+    ...estimates.map((estimate) => CSV_COLUMNS.map(([, value]) => csvCell(value(estimate)))),
+  ];
+  return rows.map((row) => row.join(",")).join("\r\n") + "\r\n";
+}
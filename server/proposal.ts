@@ -0,0 +1,341 @@
+import PDFDocument from "pdfkit";
+import { COMPANY, estimateDisclaimer } from "@shared/company";
+import {
+  formatCurrency,
+  formatDate,
+  formatNumber,
+  translate,
+  translateTerm,
+  type Locale,
+  type MessageKey,
+} from "@shared/i18n";
+import {
+  applyDiscount,
+  materialLabels,
+  productLineOptions,
+  underlaymentOptions,
+  warrantyOptions,
+} from "@shared/roofing-calculations";
+import type { LineItemCategory } from "@shared/roofing";
+import {
+  type EstimateTier,
+  type EstimateWithCustomer,
+  type PriceBookVersion,
+} from "@shared/schema";
+
+// Matches --primary in client/src/index.css
+const BRAND_COLOR = "#2563eb";
+const TEXT_COLOR = "#1f2937";
+const MUTED_COLOR = "#6b7280";
+const RULE_COLOR = "#e5e7eb";
+
+const MARGIN = 50;
+
+const CATEGORIES: LineItemCategory[] = ["materials", "labor", "addons"];
+
+const TERMS: MessageKey[] = [
+  "proposal.terms.validity",
+  "proposal.terms.deposit",
+  "proposal.terms.changeOrders",
+  "proposal.terms.warranty",
+  "proposal.terms.inclusions",
+];
+
+function describeScope({ formData }: EstimateWithCustomer, locale: Locale): string[] {
+  const t = (key: MessageKey, params?: Record<string, string | number>) => translate(locale, key, params);
+  const material = translateTerm(
+    locale,
+    materialLabels[formData.roofingType][formData.material] ?? formData.material,
+  );
+
+  return [
+    t(`proposal.scope.${formData.jobType}`, {
+      size: t("units.sqFt", { value: formData.roofSize }),
+      roofingType: t(`proposal.roofingType.${formData.roofingType}`),
+      material,
+    }),
+    t("proposal.scope.complexity", { complexity: t(`proposal.complexity.${formData.complexity}`) }),
+    ...(formData.tearoff ? [t("proposal.scope.tearoff")] : []),
+    ...(formData.permits ? [t("proposal.scope.permits")] : []),
+    t("proposal.scope.installation"),
+    t("proposal.scope.cleanup"),
+  ];
+}
+
+function describeTier({ formData }: EstimateTier, locale: Locale): string {
+  const term = (text: string) => translateTerm(locale, text);
+  return [
+    term(materialLabels[formData.roofingType][formData.material] ?? formData.material),
+    translate(locale, "option.productLine", {
+      line: term(productLineOptions[formData.productLine ?? "standard"].label),
+    }),
+    term(underlaymentOptions[formData.underlayment ?? "standard"].label),
+    term(warrantyOptions[formData.warranty ?? "standard"].label),
+  ].join(", ");
+}
+
+// A simple roof mark so the proposal is branded without shipping image files
+function drawLogo(doc: PDFKit.PDFDocument, x: number, y: number, serving: string) {
+  doc
+    .save()
+    .lineWidth(4)
+    .lineJoin("round")
+    .strokeColor(BRAND_COLOR)
+    .moveTo(x, y + 22)
+    .lineTo(x + 20, y + 4)
+    .lineTo(x + 40, y + 22)
+    .stroke()
+    .rect(x + 8, y + 22, 24, 16)
+    .fill(BRAND_COLOR)
+    .restore();
+
+  doc
+    .fillColor(TEXT_COLOR)
+    .font("Helvetica-Bold")
+    .fontSize(18)
+    .text(COMPANY.name, x + 52, y + 6)
+    .font("Helvetica")
+    .fontSize(9)
+    .fillColor(MUTED_COLOR)
+    .text(`${serving}  |  ${COMPANY.contactUrl}`, x + 52, y + 28);
+}
+
+function sectionHeading(doc: PDFKit.PDFDocument, title: string) {
+  // Keep headings with at least a few lines of their section
+  if (doc.y > doc.page.height - MARGIN - 80) {
+    doc.addPage();
+  }
+  doc
+    .moveDown(1)
+    .font("Helvetica-Bold")
+    .fontSize(12)
+    .fillColor(BRAND_COLOR)
+    .text(title.toUpperCase(), MARGIN, doc.y, { characterSpacing: 0.5 })
+    .moveDown(0.3)
+    .fillColor(TEXT_COLOR)
+    .font("Helvetica")
+    .fontSize(10);
+}
+
+function row(
+  doc: PDFKit.PDFDocument,
+  left: string,
+  right: string,
+  options: { bold?: boolean; indent?: number; muted?: string } = {},
+) {
+  const width = doc.page.width - MARGIN * 2;
+  const indent = options.indent ?? 0;
+  const y = doc.y;
+
+  doc.font(options.bold ? "Helvetica-Bold" : "Helvetica");
+  doc.text(left, MARGIN + indent, y, { width: width * 0.6 - indent });
+  const leftBottom = doc.y;
+  if (options.muted) {
+    doc.fillColor(MUTED_COLOR).text(options.muted, MARGIN + width * 0.6, y, { width: width * 0.2 });
+    doc.fillColor(TEXT_COLOR);
+  }
+  doc.text(right, MARGIN + width * 0.8, y, { width: width * 0.2, align: "right" });
+  doc.y = Math.max(leftBottom, doc.y);
+  doc.font("Helvetica");
+}
+
+function rule(doc: PDFKit.PDFDocument, color = RULE_COLOR) {
+  doc
+    .moveDown(0.3)
+    .strokeColor(color)
+    .lineWidth(1)
+    .moveTo(MARGIN, doc.y)
+    .lineTo(doc.page.width - MARGIN, doc.y)
+    .stroke()
+    .moveDown(0.3);
+}
+
+function signatureLine(
+  doc: PDFKit.PDFDocument,
+  label: string,
+  dateLabel: string,
+  x: number,
+  y: number,
+  width: number,
+) {
+  doc
+    .strokeColor(TEXT_COLOR)
+    .lineWidth(0.75)
+    .moveTo(x, y)
+    .lineTo(x + width * 0.65, y)
+    .moveTo(x + width * 0.72, y)
+    .lineTo(x + width, y)
+    .stroke()
+    .fontSize(9)
+    .fillColor(MUTED_COLOR)
+    .text(label, x, y + 4, { width: width * 0.65 })
+    .text(dateLabel, x + width * 0.72, y + 4)
+    .fillColor(TEXT_COLOR)
+    .fontSize(10);
+}
+
+// Rendered in the customer's language, or English without a customer
+export function renderProposalPdf(
+  estimate: EstimateWithCustomer,
+  priceBookVersion?: PriceBookVersion,
+): Promise<Buffer> {
+  const locale = estimate.customer?.language ?? "en";
+  const t = (key: MessageKey, params?: Record<string, string | number>) => translate(locale, key, params);
+  const money = (value: number) => formatCurrency(value, locale);
+
+  const doc = new PDFDocument({
+    size: "LETTER",
+    margin: MARGIN,
+    lang: locale,
+    info: {
+      Title: t("proposal.documentTitle", { title: estimate.title }),
+      Author: COMPANY.name,
+    },
+  });
+
+  const chunks: Buffer[] = [];
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  const { breakdown, customer, formData } = estimate;
+  const contentWidth = doc.page.width - MARGIN * 2;
+
+  // Header
+  drawLogo(doc, MARGIN, MARGIN, t("proposal.serving", { serviceArea: translateTerm(locale, COMPANY.serviceArea) }));
+  doc
+    .font("Helvetica-Bold")
+    .fontSize(20)
+    .fillColor(TEXT_COLOR)
+    .text(t("proposal.title"), MARGIN, MARGIN + 70)
+    .font("Helvetica")
+    .fontSize(10)
+    .fillColor(MUTED_COLOR)
+    .text(
+      `${t("proposal.number", { number: estimate.id.slice(0, 8).toUpperCase() })}  |  ${formatDate(estimate.updatedAt, locale)}`,
+    )
+    .fillColor(TEXT_COLOR);
+  rule(doc, BRAND_COLOR);
+
+  // Customer and property
+  const infoTop = doc.y + 6;
+  const columnWidth = contentWidth / 2 - 10;
+  doc.font("Helvetica-Bold").text(t("proposal.preparedFor"), MARGIN, infoTop, { width: columnWidth });
+  doc.font("Helvetica");
+  for (const line of [
+    customer?.name ?? t("proposal.valuedCustomer"),
+    customer?.phone,
+    customer?.email,
+  ]) {
+    if (line) doc.text(line, { width: columnWidth });
+  }
+  const customerBottom = doc.y;
+
+  const propertyX = MARGIN + contentWidth / 2 + 10;
+  doc.font("Helvetica-Bold").text(t("proposal.property"), propertyX, infoTop, { width: columnWidth });
+  doc.font("Helvetica");
+  for (const line of [
+    customer?.address,
+    formData.zipCode ? t("proposal.zipCode", { zipCode: formData.zipCode }) : undefined,
+    breakdown.region,
+  ]) {
+    if (line) doc.text(line, propertyX, doc.y, { width: columnWidth });
+  }
+  doc.y = Math.max(customerBottom, doc.y);
+
+  // Scope of work
+  sectionHeading(doc, t("proposal.scope"));
+  doc.list(describeScope(estimate, locale), MARGIN, doc.y, { bulletRadius: 2, width: contentWidth });
+
+  // Good / Better / Best options, with the pricing below for the accepted or base configuration
+  if (estimate.tiers.length > 0) {
+    sectionHeading(doc, t("proposal.options"));
+    for (const tier of estimate.tiers) {
+      const label = t(`tier.${tier.level}`);
+      row(
+        doc,
+        tier.level === estimate.acceptedTier ? t("proposal.accepted", { tier: label }) : label,
+        money(tier.breakdown.totalMid),
+        { bold: true },
+      );
+      doc.fillColor(MUTED_COLOR).fontSize(9).text(describeTier(tier, locale), MARGIN + 12, doc.y, {
+        width: contentWidth - 12,
+      });
+      doc.fillColor(TEXT_COLOR).fontSize(10).moveDown(0.3);
+    }
+  }
+
+  // Pricing
+  sectionHeading(doc, t("proposal.pricing"));
+  for (const category of CATEGORIES) {
+    const items = breakdown.lineItems.filter((item) => item.category === category);
+    if (items.length === 0) continue;
+
+    row(doc, t(`proposal.${category}`), money(breakdown[category]), { bold: true });
+    for (const item of items) {
+      row(doc, translateTerm(locale, item.description), money(item.mid), {
+        indent: 12,
+        muted: `${formatNumber(item.quantity, locale)} ${translateTerm(locale, item.unit)}`,
+      });
+    }
+    rule(doc);
+  }
+
+  row(doc, t("proposal.totalRange"), `${money(breakdown.totalLow)} - ${money(breakdown.totalHigh)}`, {
+    bold: true,
+  });
+  row(doc, t("proposal.midpoint"), money(breakdown.totalMid), { bold: true });
+  if (estimate.discountStatus === "approved") {
+    row(doc, t("proposal.discount", { percent: estimate.discountPercent }), `-${money(
+      breakdown.totalMid - applyDiscount(breakdown.totalMid, estimate.discountPercent),
+    )}`);
+    row(doc, t("proposal.price"), money(applyDiscount(breakdown.totalMid, estimate.discountPercent)), {
+      bold: true,
+    });
+  }
+  if (priceBookVersion) {
+    doc
+      .moveDown(0.3)
+      .fontSize(8)
+      .fillColor(MUTED_COLOR)
+      .text(t("proposal.priceBook", { label: priceBookVersion.label }), MARGIN)
+      .fontSize(10)
+      .fillColor(TEXT_COLOR);
+  }
+
+  // Disclaimer and terms
+  sectionHeading(doc, t("proposal.disclaimer"));
+  doc.text(
+    `${estimateDisclaimer(breakdown.region, locale)} ${t("proposal.firmQuote", { company: COMPANY.name })}`,
+    MARGIN,
+    doc.y,
+    { width: contentWidth },
+  );
+
+  sectionHeading(doc, t("proposal.terms"));
+  doc.list(TERMS.map((key) => t(key)), MARGIN, doc.y, { bulletRadius: 2, width: contentWidth });
+
+  // Signatures
+  if (doc.y > doc.page.height - MARGIN - 140) {
+    doc.addPage();
+  }
+  sectionHeading(doc, t("proposal.acceptance"));
+  doc.text(t("proposal.acceptanceText"), MARGIN, doc.y, {
+    width: contentWidth,
+  });
+  const signatureTop = doc.y + 50;
+  signatureLine(doc, t("proposal.customerSignature"), t("proposal.date"), MARGIN, signatureTop, columnWidth);
+  signatureLine(
+    doc,
+    t("proposal.representativeSignature"),
+    t("proposal.date"),
+    propertyX,
+    signatureTop,
+    columnWidth,
+  );
+
+  doc.end();
+  return done;
+}
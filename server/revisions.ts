@@ -0,0 +1,159 @@
+import {
+  estimateDelta,
+  materialLabels,
+  productLineOptions,
+  underlaymentOptions,
+  warrantyOptions,
+} from "@shared/roofing-calculations";
+import type { CostBreakdown } from "@shared/roofing";
+import { formatNumber } from "@shared/i18n";
+import type {
+  EstimateRevision,
+  RevisionChange,
+  RevisionDiff,
+  RevisionField,
+  ValidCalculatorFormData,
+} from "@shared/schema";
+
+type FormData = ValidCalculatorFormData;
+
+interface RevisionInput {
+  field: Exclude<RevisionField, "priceBook">;
+  label: string;
+  keys: (keyof FormData)[]; // copied together, e.g. a material only exists for its roofing type
+  format: (formData: FormData) => string;
+}
+
+const jobTypeLabels: Record<FormData["jobType"], string> = {
+  new: "New installation",
+  replacement: "Replacement",
+  repair: "Repair",
+};
+
+const yesNo = (value: boolean) => (value ? "Yes" : "No");
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+// In the order their effect on the totals is measured
+const REVISION_INPUTS: RevisionInput[] = [
+  {
+    field: "material",
+    label: "Material",
+    keys: ["roofingType", "material"],
+    format: ({ roofingType, material }) =>
+      `${materialLabels[roofingType][material] ?? material} (${roofingType})`,
+  },
+  {
+    field: "roofSize",
+    label: "Roof size",
+    keys: ["roofSize", "edges"],
+    format: ({ roofSize, edges }) =>
+      `${formatNumber(roofSize)} sq ft${edges ? ", measured edges" : ""}`,
+  },
+  {
+    field: "jobType",
+    label: "Job type",
+    keys: ["jobType"],
+    format: ({ jobType }) => jobTypeLabels[jobType],
+  },
+  {
+    field: "complexity",
+    label: "Complexity",
+    keys: ["complexity"],
+    format: ({ complexity }) => capitalize(complexity),
+  },
+  {
+    field: "tearoff",
+    label: "Tear-off",
+    keys: ["tearoff"],
+    format: ({ tearoff }) => yesNo(tearoff),
+  },
+  {
+    field: "permits",
+    label: "Permits",
+    keys: ["permits"],
+    format: ({ permits }) => yesNo(permits),
+  },
+  {
+    field: "zipCode",
+    label: "ZIP code",
+    keys: ["zipCode"],
+    format: ({ zipCode }) => zipCode || "None",
+  },
+  {
+    field: "productLine",
+    label: "Product line",
+    keys: ["productLine"],
+    format: ({ productLine }) => productLineOptions[productLine ?? "standard"].label,
+  },
+  {
+    field: "underlayment",
+    label: "Underlayment",
+    keys: ["underlayment"],
+    format: ({ underlayment }) => underlaymentOptions[underlayment ?? "standard"].label,
+  },
+  {
+    field: "warranty",
+    label: "Warranty",
+    keys: ["warranty"],
+    format: ({ warranty }) => warrantyOptions[warranty ?? "standard"].label,
+  },
+];
+
+export interface RevisionPricing {
+  price(formData: FormData, priceBookVersionId: string): Promise<CostBreakdown | null>;
+  versionLabel(priceBookVersionId: string): Promise<string>;
+}
+
+// Walks from one revision to the next one change at a time, repricing after
+// each step so every changed input gets its own share of the difference. The
+// price book is switched first so input effects are measured at the new prices.
+export async function diffRevisions(
+  from: EstimateRevision,
+  to: EstimateRevision,
+  pricing: RevisionPricing,
+): Promise<RevisionDiff> {
+  const changes: RevisionChange[] = [];
+  let current = from.formData;
+  let previous = from.breakdown;
+
+  const step = async (next: FormData) => {
+    const repriced = await pricing.price(next, to.priceBookVersionId);
+    const delta = repriced && estimateDelta(previous, repriced);
+    previous = repriced ?? previous;
+    return delta;
+  };
+
+  if (from.priceBookVersionId !== to.priceBookVersionId) {
+    changes.push({
+      field: "priceBook",
+      label: "Price book",
+      before: await pricing.versionLabel(from.priceBookVersionId),
+      after: await pricing.versionLabel(to.priceBookVersionId),
+      delta: await step(current),
+    });
+  }
+
+  for (const input of REVISION_INPUTS) {
+    const before = input.format(current);
+    const after = input.format(to.formData);
+    if (before === after) {
+      continue;
+    }
+
+    const next = { ...current };
+    for (const key of input.keys) {
+      Object.assign(next, { [key]: to.formData[key] });
+    }
+    changes.push({ field: input.field, label: input.label, before, after, delta: await step(next) });
+    current = next;
+  }
+
+  return {
+    from,
+    to,
+    titleChanged: from.title !== to.title,
+    changes,
+    otherDelta: estimateDelta(previous, to.breakdown),
+    delta: estimateDelta(from.breakdown, to.breakdown),
+  };
+}
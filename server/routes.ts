@@ -1,14 +1,1150 @@
-import type { Express } from "express";
+import type { Express, NextFunction, Request, RequestHandler, Response } from "express";
 import { createServer, type Server } from "http";
+import { randomBytes } from "crypto";
+import { fromZodError } from "zod-validation-error";
+import type { ZodError } from "zod";
+import {
+  acceptTierSchema,
+  calculatorFormSchema,
+  compareMaterialsSchema,
+  createShareLinkSchema,
+  estimateExportSchema,
+  insertCostIndexSchema,
+  insertCustomerSchema,
+  insertEstimateSchema,
+  insertLeadSchema,
+  localizeZodError,
+  updateEstimateSchema,
+  publishPriceBookSchema,
+  requestDiscountSchema,
+  reviewDiscountSchema,
+  sameCalculatorInputs,
+  setEstimateTiersSchema,
+  tierChoice,
+  tierLabels,
+  tierLevelSchema,
+  updateLeadSchema,
+  updateUserSchema,
+  validationErrorCode,
+  type ApiErrorBody,
+  type Estimate,
+  type EstimateRecalculation,
+  type EstimateReport,
+  type EstimateRevision,
+  type EstimateRevisionWithAuthor,
+  type EstimateShareLink,
+  type EstimateTier,
+  type EstimateTierChoice,
+  type EstimateWithCustomer,
+  type EstimatorReportRow,
+  type ExportedEstimate,
+  type InsertEstimate,
+  type MaterialReportRow,
+  type PriceBookSnapshot,
+  type PriceBookVersion,
+  type SharedEstimate,
+  type TierLevel,
+  type User,
+  type ValidCalculatorFormData,
+} from "@shared/schema";
+import type { CostBreakdown, CostIndex, MaterialType, PriceSet, PricedCostBreakdown } from "@shared/roofing";
+import type { MessageKey } from "@shared/i18n";
+import { hasPermission } from "@shared/permissions";
+import { BASE_COST_INDEX } from "@shared/regional-pricing";
+import { simulateRoofingCost } from "@shared/roofing-simulation";
+import {
+  applyDiscount,
+  calculateRoofingCost,
+  compareMaterials,
+  estimateDelta,
+  pricingFromPriceBook,
+} from "@shared/roofing-calculations";
 import { storage } from "./storage";
+import { requirePermission, setupAuth, toSafeUser } from "./auth";
+import { renderProposalPdf } from "./proposal";
+import { diffRevisions, type RevisionPricing } from "./revisions";
+import { buildEstimateExport, estimatesToCsv } from "./estimate-export";
+
+// Express 4 doesn't catch rejected promises, so async handlers pass their
+// errors on to the error middleware instead of crashing the process
+function asyncHandler(
+  handler: (req: Request, res: Response, next: NextFunction) => Promise<unknown>,
+): RequestHandler {
+  return (req, res, next) => {
+    handler(req, res, next).catch(next);
+  };
+}
+
+function sendValidationError(res: Response, error: ZodError) {
+  return res.status(400).json({
+    message: fromZodError(localizeZodError(error)).message,
+    ...validationErrorCode(error),
+  } satisfies ApiErrorBody);
+}
+
+// For errors the customer sees: the client translates `code` and staff tools
+// show the English message
+function sendCustomerError(res: Response, status: number, code: MessageKey, message: string) {
+  return res.status(status).json({ message, code } satisfies ApiErrorBody);
+}
+
+async function getPriceBookSnapshot(
+  version: PriceBookVersion,
+): Promise<PriceBookSnapshot> {
+  const [entries, rates] = await Promise.all([
+    storage.getPriceBookEntries(version.id),
+    storage.getPriceBookRates(version.id),
+  ]);
+  return { version, entries, rates };
+}
+
+// ZIP codes outside the index are priced at the base region
+async function getCostIndex(zipCode?: string): Promise<CostIndex> {
+  const costIndex = zipCode ? await storage.getCostIndexByZip(zipCode) : undefined;
+  return costIndex ?? BASE_COST_INDEX;
+}
+
+interface ResolvedPricing {
+  pricing: PriceSet;
+  costIndex: CostIndex;
+}
+
+// Looks up the prices and regional index for the form. Returns an error
+// message instead when the material is not in the price book version.
+async function resolvePricing(
+  formData: ValidCalculatorFormData,
+  version: PriceBookVersion,
+): Promise<ResolvedPricing | string> {
+  const { roofingType, material } = formData;
+  const { entries, rates } = await getPriceBookSnapshot(version);
+  const pricing = pricingFromPriceBook(entries, rates);
+  if (!pricing.materials[roofingType][material]) {
+    return `${material} is not offered for ${roofingType} roofing`;
+  }
+  return { pricing, costIndex: await getCostIndex(formData.zipCode) };
+}
+
+// Prices the form against one price book version, or returns an error message
+async function priceEstimate(
+  formData: ValidCalculatorFormData,
+  version: PriceBookVersion,
+): Promise<PricedCostBreakdown | string> {
+  const resolved = await resolvePricing(formData, version);
+  if (typeof resolved === "string") {
+    return resolved;
+  }
+
+  const breakdown = calculateRoofingCost(formData, resolved.pricing, resolved.costIndex);
+  if (!breakdown) {
+    return "Unable to calculate an estimate for this input";
+  }
+  return { ...breakdown, priceBookVersionId: version.id };
+}
+
+// Prices each tier's choices on the estimate's roof and job, in Good, Better, Best order
+async function priceTiers(
+  formData: ValidCalculatorFormData,
+  choices: EstimateTierChoice[],
+  version: PriceBookVersion,
+): Promise<EstimateTier[] | string> {
+  const tiers: EstimateTier[] = [];
+  for (const level of tierLevelSchema.options) {
+    const choice = choices.find((tier) => tier.level === level);
+    if (!choice) {
+      continue;
+    }
+    const { level: _, ...options } = choice;
+    const tierFormData = { ...formData, ...options };
+    const priced = await priceEstimate(tierFormData, version);
+    if (typeof priced === "string") {
+      return `${tierLabels[level]} option: ${priced}`;
+    }
+    const { priceBookVersionId: __, ...breakdown } = priced;
+    tiers.push({ level, formData: tierFormData, breakdown });
+  }
+  return tiers;
+}
+
+// The accepted tier becomes the estimate's configuration, so reports and
+// proposals show what the customer chose
+async function acceptTier(
+  estimate: Estimate,
+  level: TierLevel,
+  acceptedBy: User | undefined, // staff recording the choice, or the customer via a link
+): Promise<Estimate | string> {
+  const tier = estimate.tiers.find((option) => option.level === level);
+  if (!tier) {
+    return `This estimate has no ${tierLabels[level]} option`;
+  }
+  const accepted = await storage.updateEstimate(estimate.id, {
+    formData: tier.formData,
+    breakdown: tier.breakdown,
+    acceptedTier: level,
+    acceptedAt: new Date(),
+  });
+  if (!accepted) {
+    return estimate;
+  }
+  await recordRevision(
+    accepted,
+    acceptedBy?.id ?? null,
+    acceptedBy
+      ? `${tierLabels[level]} option accepted`
+      : `Customer accepted the ${tierLabels[level]} option`,
+  );
+  return accepted;
+}
+
+// The customer accepted, and a manager approved, the price they saw. Saving
+// other inputs or another price book clears both; the same ones keep them.
+function agreementChanges(
+  existing: Estimate,
+  formData: Estimate["formData"],
+  priceBookVersionId: string,
+): Partial<Estimate> {
+  if (sameCalculatorInputs(formData, existing.formData) && priceBookVersionId === existing.priceBookVersionId) {
+    return {};
+  }
+  return {
+    acceptedTier: null,
+    acceptedAt: null,
+    discountPercent: 0,
+    discountStatus: "none",
+    discountReviewedBy: null,
+  };
+}
+
+// Snapshots the estimate as the next revision
+async function recordRevision(
+  estimate: Estimate,
+  createdBy: string | null,
+  note?: string,
+): Promise<EstimateRevision> {
+  const [latest] = await storage.getRevisions(estimate.id);
+  return storage.createRevision({
+    estimateId: estimate.id,
+    number: (latest?.number ?? 0) + 1,
+    title: estimate.title,
+    formData: estimate.formData,
+    breakdown: estimate.breakdown,
+    priceBookVersionId: estimate.priceBookVersionId,
+    note,
+    createdBy,
+  });
+}
+
+const revisionPricing: RevisionPricing = {
+  async price(formData, priceBookVersionId) {
+    const version = await storage.getPriceBookVersion(priceBookVersionId);
+    const priced = version ? await priceEstimate(formData, version) : "Unknown price book";
+    return typeof priced === "string" ? null : priced;
+  },
+  async versionLabel(priceBookVersionId) {
+    return (await storage.getPriceBookVersion(priceBookVersionId))?.label ?? "Unknown price book";
+  },
+};
+
+async function withCustomer(estimate: Estimate): Promise<EstimateWithCustomer> {
+  const customer = estimate.customerId
+    ? await storage.getCustomer(estimate.customerId)
+    : undefined;
+  return { ...estimate, customer: customer ?? null };
+}
+
+// Uses the inline customer if one was given, otherwise checks the referenced one
+async function resolveCustomerId(
+  input: Pick<InsertEstimate, "customer" | "customerId">,
+): Promise<string | null | undefined> {
+  if (input.customer) {
+    return (await storage.createCustomer(input.customer)).id;
+  }
+  if (input.customerId && !(await storage.getCustomer(input.customerId))) {
+    throw Object.assign(new Error("Customer not found"), { status: 404 });
+  }
+  return input.customerId;
+}
+
+// Totals within a cent count as the same price, allowing for rounding
+function samePricing(a: CostBreakdown, b: CostBreakdown): boolean {
+  return (["totalLow", "totalMid", "totalHigh"] as const).every(
+    (total) => Math.abs(a[total] - b[total]) < 0.01,
+  );
+}
+
+// Recreates an exported estimate. Prices are never taken from the file: the
+// inputs are repriced with the same price book when it exists here (matched by
+// id, then label), and the file is rejected if its prices differ; otherwise
+// they are repriced with the current one. An accepted option is kept only
+// with the same price book, since otherwise the customer never saw the new
+// prices. Approved discounts go back to pending unless the importer can
+// approve them.
+async function importEstimate(
+  exported: ExportedEstimate,
+  versions: PriceBookVersion[],
+  importedBy: User,
+): Promise<Estimate | string> {
+  const matched =
+    versions.find((version) => version.id === exported.priceBook.id) ??
+    versions.find((version) => exported.priceBook.label && version.label === exported.priceBook.label);
+  const version = matched ?? (await storage.getCurrentPriceBookVersion());
+  if (!version) {
+    return "No price book is in effect";
+  }
+
+  const { formData } = exported;
+  const priced = await priceEstimate(formData, version);
+  if (typeof priced === "string") {
+    return `${exported.title}: ${priced}`;
+  }
+  const tiers = await priceTiers(formData, exported.tiers.map(tierChoice), version);
+  if (typeof tiers === "string") {
+    return `${exported.title}: ${tiers}`;
+  }
+  if (
+    matched &&
+    (!samePricing(priced, exported.breakdown) ||
+      tiers.length !== exported.tiers.length ||
+      exported.tiers.some((tier) => {
+        const repriced = tiers.find((option) => option.level === tier.level);
+        return !repriced || !samePricing(repriced.breakdown, tier.breakdown);
+      }))
+  ) {
+    return `${exported.title}: its prices don't match what the ${version.label} price book gives for its inputs`;
+  }
+  const { priceBookVersionId, ...breakdown } = priced;
+
+  const canApprove = hasPermission(importedBy, "discounts:approve");
+  const discountStatus =
+    exported.discountStatus === "approved" && !canApprove ? "pending" : exported.discountStatus;
+  const reviewed = discountStatus === "approved" || discountStatus === "rejected";
+
+  // Customers are matched by name and email so re-importing doesn't duplicate them
+  let customerId: string | null = null;
+  if (exported.customer) {
+    const { name, email } = exported.customer;
+    const existing = (await storage.getCustomers()).find(
+      (customer) => customer.name === name && (customer.email ?? null) === (email ?? null),
+    );
+    customerId = (existing ?? (await storage.createCustomer(exported.customer))).id;
+  }
+
+  const estimate = await storage.createEstimate({
+    title: exported.title,
+    customerId,
+    formData,
+    breakdown,
+    priceBookVersionId,
+    discountPercent: discountStatus === "none" ? 0 : exported.discountPercent,
+    discountStatus,
+    discountReviewedBy: reviewed && canApprove ? importedBy.id : null,
+    createdBy: importedBy.id,
+    tiers,
+    acceptedTier: matched ? exported.acceptedTier : null,
+    acceptedAt: matched ? exported.acceptedAt : null,
+    createdAt: exported.createdAt,
+    updatedAt: exported.updatedAt,
+  });
+  await recordRevision(estimate, importedBy.id, "Imported");
+  return estimate;
+}
+
+// Looks up the estimate behind a share link, or the status and message to respond with
+async function findSharedEstimate(
+  token: string,
+): Promise<
+  { link: EstimateShareLink; estimate: Estimate } | { status: number; code: MessageKey; message: string }
+> {
+  const link = await storage.getShareLinkByToken(token);
+  const estimate = link && !link.revokedAt ? await storage.getEstimate(link.estimateId) : undefined;
+  if (!link || !estimate) {
+    return { status: 404, code: "error.linkInvalid", message: "This estimate link is not valid" };
+  }
+  if (link.expiresAt && link.expiresAt.getTime() <= Date.now()) {
+    return { status: 410, code: "error.linkExpired", message: "This estimate link has expired" };
+  }
+  return { link, estimate };
+}
+
+// Share links leave out the customer's contact details and internal discount state
+async function toSharedEstimate(
+  estimate: Estimate,
+  expiresAt: Date | null,
+): Promise<SharedEstimate> {
+  const { customer } = await withCustomer(estimate);
+  return {
+    title: estimate.title,
+    customerName: customer?.name ?? null,
+    formData: estimate.formData,
+    breakdown: estimate.breakdown,
+    discountPercent: estimate.discountStatus === "approved" ? estimate.discountPercent : 0,
+    tiers: estimate.tiers,
+    acceptedTier: estimate.acceptedTier,
+    updatedAt: estimate.updatedAt,
+    expiresAt,
+  };
+}
+
+// Quoted totals are midpoints after any approved discount
+async function buildEstimateReport(
+  estimates: Estimate[],
+  users: User[],
+): Promise<EstimateReport> {
+  const quoted = (estimate: Estimate) =>
+    estimate.discountStatus === "approved"
+      ? applyDiscount(estimate.breakdown.totalMid, estimate.discountPercent)
+      : estimate.breakdown.totalMid;
+
+  const byMaterial = new Map<MaterialType, MaterialReportRow>();
+  const byEstimator = new Map<string | null, EstimatorReportRow>();
+  const usernames = new Map(users.map((user) => [user.id, user.username]));
+
+  for (const estimate of estimates) {
+    const { material } = estimate.formData;
+    const materialRow = byMaterial.get(material) ?? { material, count: 0, quotedTotal: 0 };
+    materialRow.count += 1;
+    materialRow.quotedTotal += quoted(estimate);
+    byMaterial.set(material, materialRow);
+
+    const userId = estimate.createdBy;
+    const estimatorRow = byEstimator.get(userId) ?? {
+      userId,
+      username: (userId && usernames.get(userId)) || "Unassigned",
+      count: 0,
+      quotedTotal: 0,
+    };
+    estimatorRow.count += 1;
+    estimatorRow.quotedTotal += quoted(estimate);
+    byEstimator.set(userId, estimatorRow);
+  }
+
+  const pending = estimates.filter((estimate) => estimate.discountStatus === "pending");
+
+  return {
+    estimateCount: estimates.length,
+    quotedTotal: estimates.reduce((sum, estimate) => sum + quoted(estimate), 0),
+    discountTotal: estimates.reduce(
+      (sum, estimate) => sum + estimate.breakdown.totalMid - quoted(estimate),
+      0,
+    ),
+    pendingDiscounts: await Promise.all(pending.map(withCustomer)),
+    byMaterial: Array.from(byMaterial.values()).sort((a, b) => b.quotedTotal - a.quotedTotal),
+    byEstimator: Array.from(byEstimator.values()).sort((a, b) => b.quotedTotal - a.quotedTotal),
+  };
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Sessions and /api/register, /api/login, /api/logout, /api/me
+  setupAuth(app);
+
+  const canEditEstimates = requirePermission("estimates:edit");
+  const canApproveDiscounts = requirePermission("discounts:approve");
+  const canViewReports = requirePermission("reports:view");
+  const canEditPriceBook = requirePermission("pricebook:edit");
+  const canManageUsers = requirePermission("users:manage");
+
   // put application routes here
   // prefix all routes with /api
 
   // use storage to perform CRUD operations on the storage interface
   // e.g. storage.insertUser(user) or storage.getUserByUsername(username)
 
+  app.get("/api/pricebook", asyncHandler(async (_req, res) => {
+    const version = await storage.getCurrentPriceBookVersion();
+    if (!version) {
+      return res.status(404).json({ message: "No price book is in effect" });
+    }
+    res.json(await getPriceBookSnapshot(version));
+  }));
+
+  app.get("/api/pricebook/versions", canEditEstimates, asyncHandler(async (_req, res) => {
+    res.json(await storage.getPriceBookVersions());
+  }));
+
+  app.get("/api/pricebook/versions/:id", canEditEstimates, asyncHandler(async (req, res) => {
+    const version = await storage.getPriceBookVersion(req.params.id);
+    if (!version) {
+      return res.status(404).json({ message: "Price book version not found" });
+    }
+    res.json(await getPriceBookSnapshot(version));
+  }));
+
+  app.post("/api/pricebook/versions", canEditPriceBook, asyncHandler(async (req, res) => {
+    const parsed = publishPriceBookSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+
+    const { entries: entryChanges, rates: rateChanges, ...insertVersion } = parsed.data;
+    const current = await storage.getCurrentPriceBookVersion();
+    const snapshot = current ? await getPriceBookSnapshot(current) : { entries: [], rates: [] };
+    const entries = new Map(
+      snapshot.entries.map(
+        ({ roofingType, material, label, lowCost, highCost, laborLowCost, laborHighCost }) => [
+          `${roofingType}:${material}`,
+          { roofingType, material, label, lowCost, highCost, laborLowCost, laborHighCost },
+        ],
+      ),
+    );
+    for (const change of entryChanges) {
+      entries.set(`${change.roofingType}:${change.material}`, change);
+    }
+    const rates = new Map(
+      snapshot.rates.map(({ item, lowCost, highCost }) => [item, { item, lowCost, highCost }]),
+    );
+    for (const change of rateChanges) {
+      rates.set(change.item, change);
+    }
+
+    const version = await storage.createPriceBookVersion(
+      insertVersion,
+      Array.from(entries.values()),
+      Array.from(rates.values()),
+    );
+    res.status(201).json(await getPriceBookSnapshot(version));
+  }));
+
+  app.get("/api/cost-indexes", asyncHandler(async (_req, res) => {
+    res.json(await storage.getCostIndexes());
+  }));
+
+  app.get("/api/cost-indexes/:zipCode", asyncHandler(async (req, res) => {
+    const costIndex = await storage.getCostIndexByZip(req.params.zipCode);
+    if (!costIndex) {
+      return res.status(404).json({ message: "ZIP code is outside our service area" });
+    }
+    res.json(costIndex);
+  }));
+
+  app.put("/api/cost-indexes", canEditPriceBook, asyncHandler(async (req, res) => {
+    const parsed = insertCostIndexSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+    res.json(await storage.upsertCostIndex(parsed.data));
+  }));
+
+  app.post("/api/estimates/calculate", asyncHandler(async (req, res) => {
+    const parsed = calculatorFormSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+
+    const version = await storage.getCurrentPriceBookVersion();
+    if (!version) {
+      return sendCustomerError(res, 503, "error.noPriceBook", "No price book is in effect");
+    }
+
+    const estimate = await priceEstimate(parsed.data, version);
+    if (typeof estimate === "string") {
+      return sendCustomerError(res, 400, "error.priceUnavailable", estimate);
+    }
+    res.json(estimate);
+  }));
+
+  // Prices the same roof with several materials, for side-by-side comparison
+  app.post("/api/estimates/compare", asyncHandler(async (req, res) => {
+    const parsed = compareMaterialsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+
+    const version = await storage.getCurrentPriceBookVersion();
+    if (!version) {
+      return sendCustomerError(res, 503, "error.noPriceBook", "No price book is in effect");
+    }
+
+    const { materials, ...formData } = parsed.data;
+    const [{ entries, rates }, costIndex] = await Promise.all([
+      getPriceBookSnapshot(version),
+      getCostIndex(formData.zipCode),
+    ]);
+    const rows = compareMaterials(formData, materials, entries, rates, costIndex);
+    const missing = materials.filter((material) => !rows.some((row) => row.material === material));
+    if (missing.length > 0) {
+      return sendCustomerError(
+        res,
+        400,
+        "error.priceUnavailable",
+        `${missing.join(", ")} not offered for ${formData.roofingType} roofing`,
+      );
+    }
+    res.json(rows);
+  }));
+
+  // Monte Carlo range for the same input, priced with the current price book
+  app.post("/api/estimates/simulate", asyncHandler(async (req, res) => {
+    const parsed = calculatorFormSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+
+    const version = await storage.getCurrentPriceBookVersion();
+    if (!version) {
+      return sendCustomerError(res, 503, "error.noPriceBook", "No price book is in effect");
+    }
+
+    const resolved = await resolvePricing(parsed.data, version);
+    if (typeof resolved === "string") {
+      return sendCustomerError(res, 400, "error.priceUnavailable", resolved);
+    }
+
+    const simulation = simulateRoofingCost(parsed.data, resolved.pricing, resolved.costIndex);
+    if (!simulation) {
+      return sendCustomerError(res, 422, "error.priceUnavailable", "Unable to simulate an estimate for this input");
+    }
+    res.json(simulation);
+  }));
+
+  app.get("/api/customers", canEditEstimates, asyncHandler(async (_req, res) => {
+    res.json(await storage.getCustomers());
+  }));
+
+  app.get("/api/customers/:id", canEditEstimates, asyncHandler(async (req, res) => {
+    const customer = await storage.getCustomer(req.params.id);
+    if (!customer) {
+      return res.status(404).json({ message: "Customer not found" });
+    }
+    res.json(customer);
+  }));
+
+  app.post("/api/customers", canEditEstimates, asyncHandler(async (req, res) => {
+    const parsed = insertCustomerSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+    res.status(201).json(await storage.createCustomer(parsed.data));
+  }));
+
+  app.patch("/api/customers/:id", canEditEstimates, asyncHandler(async (req, res) => {
+    const parsed = insertCustomerSchema.partial().safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+
+    const customer = await storage.updateCustomer(req.params.id, parsed.data);
+    if (!customer) {
+      return res.status(404).json({ message: "Customer not found" });
+    }
+    res.json(customer);
+  }));
+
+  app.get("/api/estimates", canEditEstimates, asyncHandler(async (_req, res) => {
+    const estimates = await storage.getEstimates();
+    res.json(await Promise.all(estimates.map(withCustomer)));
+  }));
+
+  // Registered before /api/estimates/:id so "export" isn't taken for an id
+  app.get("/api/estimates/export", canEditEstimates, asyncHandler(async (req, res) => {
+    const format = req.query.format ?? "json";
+    if (format !== "json" && format !== "csv") {
+      return res.status(400).json({ message: "Format must be csv or json" });
+    }
+
+    const ids = typeof req.query.ids === "string" ? req.query.ids.split(",").filter(Boolean) : [];
+    const all = await storage.getEstimates();
+    const selected = ids.length > 0 ? all.filter((estimate) => ids.includes(estimate.id)) : all;
+    if (selected.length === 0) {
+      return res.status(404).json({ message: "No estimates to export" });
+    }
+
+    const estimates = await Promise.all(selected.map(withCustomer));
+    const filename = `estimates-${new Date().toISOString().slice(0, 10)}.${format}`;
+    res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+    if (format === "csv") {
+      res.type("text/csv").send(estimatesToCsv(estimates));
+    } else {
+      res.json(buildEstimateExport(estimates, await storage.getPriceBookVersions()));
+    }
+  }));
+
+  app.post("/api/estimates/import", canEditEstimates, asyncHandler(async (req, res) => {
+    const parsed = estimateExportSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+
+    const versions = await storage.getPriceBookVersions();
+    const imported: EstimateWithCustomer[] = [];
+    for (const exported of parsed.data.estimates) {
+      const estimate = await importEstimate(exported, versions, req.user!);
+      if (typeof estimate === "string") {
+        return res.status(400).json({
+          message: `${estimate} (${imported.length} of ${parsed.data.estimates.length} imported)`,
+        });
+      }
+      imported.push(await withCustomer(estimate));
+    }
+    res.status(201).json(imported);
+  }));
+
+  app.get("/api/estimates/:id", canEditEstimates, asyncHandler(async (req, res) => {
+    const estimate = await storage.getEstimate(req.params.id);
+    if (!estimate) {
+      return res.status(404).json({ message: "Estimate not found" });
+    }
+    res.json(await withCustomer(estimate));
+  }));
+
+  app.post("/api/estimates", canEditEstimates, asyncHandler(async (req, res) => {
+    const parsed = insertEstimateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+
+    const version = await storage.getCurrentPriceBookVersion();
+    if (!version) {
+      return res.status(503).json({ message: "No price book is in effect" });
+    }
+
+    const priced = await priceEstimate(parsed.data.formData, version);
+    if (typeof priced === "string") {
+      return res.status(400).json({ message: priced });
+    }
+
+    const { priceBookVersionId, ...breakdown } = priced;
+    const estimate = await storage.createEstimate({
+      title: parsed.data.title,
+      customerId: await resolveCustomerId(parsed.data),
+      formData: parsed.data.formData,
+      breakdown,
+      priceBookVersionId,
+      createdBy: req.user!.id,
+    });
+    await recordRevision(estimate, req.user!.id);
+    res.status(201).json(await withCustomer(estimate));
+  }));
+
+  // Changing the inputs reprices the estimate with the current price book;
+  // saving the same inputs keeps the prices it was quoted at
+  app.patch("/api/estimates/:id", canEditEstimates, asyncHandler(async (req, res) => {
+    const parsed = updateEstimateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+
+    const existing = await storage.getEstimate(req.params.id);
+    if (!existing) {
+      return res.status(404).json({ message: "Estimate not found" });
+    }
+
+    const { title, formData } = parsed.data;
+    const changes: Partial<Estimate> = {};
+    if (title !== undefined) {
+      changes.title = title;
+    }
+    if (parsed.data.customer || parsed.data.customerId !== undefined) {
+      changes.customerId = await resolveCustomerId(parsed.data);
+    }
+    if (formData && !sameCalculatorInputs(formData, existing.formData)) {
+      const version = await storage.getCurrentPriceBookVersion();
+      if (!version) {
+        return res.status(503).json({ message: "No price book is in effect" });
+      }
+
+      const priced = await priceEstimate(formData, version);
+      if (typeof priced === "string") {
+        return res.status(400).json({ message: priced });
+      }
+
+      const { priceBookVersionId, ...breakdown } = priced;
+      Object.assign(changes, { formData, breakdown, priceBookVersionId });
+
+      // Tiers share the roof, so they follow the new inputs and price book
+      const tiers = await priceTiers(formData, existing.tiers.map(tierChoice), version);
+      if (typeof tiers === "string") {
+        return res.status(400).json({ message: tiers });
+      }
+      changes.tiers = tiers;
+      Object.assign(changes, agreementChanges(existing, formData, priceBookVersionId));
+    }
+
+    const estimate = await storage.updateEstimate(existing.id, changes);
+    if (estimate && (changes.title !== undefined || changes.formData)) {
+      // Estimates saved before revisions were kept get their prior state as a baseline
+      if ((await storage.getRevisions(existing.id)).length === 0) {
+        await recordRevision(existing, existing.createdBy, "Saved before revision history");
+      }
+      await recordRevision(estimate, req.user!.id);
+    }
+    res.json(await withCustomer(estimate ?? existing));
+  }));
+
+  app.delete("/api/estimates/:id", canEditEstimates, asyncHandler(async (req, res) => {
+    const deleted = await storage.deleteEstimate(req.params.id);
+    if (!deleted) {
+      return res.status(404).json({ message: "Estimate not found" });
+    }
+    res.status(204).end();
+  }));
+
+  app.get("/api/estimates/:id/proposal.pdf", canEditEstimates, asyncHandler(async (req, res) => {
+    const estimate = await storage.getEstimate(req.params.id);
+    if (!estimate) {
+      return res.status(404).json({ message: "Estimate not found" });
+    }
+
+    const [withDetails, version] = await Promise.all([
+      withCustomer(estimate),
+      storage.getPriceBookVersion(estimate.priceBookVersionId),
+    ]);
+    const pdf = await renderProposalPdf(withDetails, version);
+    const filename = `proposal-${estimate.title.replace(/[^a-z0-9]+/gi, "-").toLowerCase()}.pdf`;
+
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+    res.send(pdf);
+  }));
+
+  app.get("/api/estimates/:id/revisions", canEditEstimates, asyncHandler(async (req, res) => {
+    const estimate = await storage.getEstimate(req.params.id);
+    if (!estimate) {
+      return res.status(404).json({ message: "Estimate not found" });
+    }
+
+    const [revisions, users] = await Promise.all([
+      storage.getRevisions(estimate.id),
+      storage.getUsers(),
+    ]);
+    const usernames = new Map(users.map((user) => [user.id, user.username]));
+    const withAuthors: EstimateRevisionWithAuthor[] = revisions.map((revision) => ({
+      ...revision,
+      author: (revision.createdBy && usernames.get(revision.createdBy)) || null,
+    }));
+    res.json(withAuthors);
+  }));
+
+  // Compares a revision with the one saved before it
+  app.get("/api/estimates/:id/revisions/:revisionId/diff", canEditEstimates, asyncHandler(async (req, res) => {
+    const revisions = await storage.getRevisions(req.params.id);
+    const to = revisions.find((revision) => revision.id === req.params.revisionId);
+    if (!to) {
+      return res.status(404).json({ message: "Revision not found" });
+    }
+    const from = revisions.find((revision) => revision.number === to.number - 1);
+    if (!from) {
+      return res.status(404).json({ message: "This is the first revision" });
+    }
+    res.json(await diffRevisions(from, to, revisionPricing));
+  }));
+
+  // Restoring is itself saved as a new revision, so history is never rewritten
+  app.post("/api/estimates/:id/revisions/:revisionId/restore", canEditEstimates, asyncHandler(async (req, res) => {
+    const [existing, revision] = await Promise.all([
+      storage.getEstimate(req.params.id),
+      storage.getRevision(req.params.revisionId),
+    ]);
+    if (!existing || !revision || revision.estimateId !== existing.id) {
+      return res.status(404).json({ message: "Revision not found" });
+    }
+    const version = await storage.getPriceBookVersion(revision.priceBookVersionId);
+    if (!version) {
+      return res.status(404).json({ message: "Price book version not found" });
+    }
+
+    const tiers = await priceTiers(revision.formData, existing.tiers.map(tierChoice), version);
+    if (typeof tiers === "string") {
+      return res.status(400).json({ message: tiers });
+    }
+
+    const estimate = await storage.updateEstimate(existing.id, {
+      title: revision.title,
+      formData: revision.formData,
+      breakdown: revision.breakdown,
+      priceBookVersionId: revision.priceBookVersionId,
+      tiers,
+      ...agreementChanges(existing, revision.formData, revision.priceBookVersionId),
+    });
+    if (!estimate) {
+      return res.status(404).json({ message: "Estimate not found" });
+    }
+    await recordRevision(estimate, req.user!.id, `Restored revision ${revision.number}`);
+    res.json(await withCustomer(estimate));
+  }));
+
+  // Tiers are priced with the estimate's price book version so all options are comparable
+  app.put("/api/estimates/:id/tiers", canEditEstimates, asyncHandler(async (req, res) => {
+    const parsed = setEstimateTiersSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+
+    const existing = await storage.getEstimate(req.params.id);
+    if (!existing) {
+      return res.status(404).json({ message: "Estimate not found" });
+    }
+    const version = await storage.getPriceBookVersion(existing.priceBookVersionId);
+    if (!version) {
+      return res.status(404).json({ message: "Price book version not found" });
+    }
+
+    const tiers = await priceTiers(existing.formData, parsed.data.tiers, version);
+    if (typeof tiers === "string") {
+      return res.status(400).json({ message: tiers });
+    }
+
+    // Changed options need to be accepted again
+    const estimate = await storage.updateEstimate(existing.id, {
+      tiers,
+      acceptedTier: null,
+      acceptedAt: null,
+    });
+    res.json(await withCustomer(estimate ?? existing));
+  }));
+
+  // Staff record the customer's choice, e.g. when signing in person
+  app.post("/api/estimates/:id/accept", canEditEstimates, asyncHandler(async (req, res) => {
+    const parsed = acceptTierSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+
+    const existing = await storage.getEstimate(req.params.id);
+    if (!existing) {
+      return res.status(404).json({ message: "Estimate not found" });
+    }
+
+    const estimate = await acceptTier(existing, parsed.data.tier, req.user);
+    if (typeof estimate === "string") {
+      return res.status(400).json({ message: estimate });
+    }
+    res.json(await withCustomer(estimate));
+  }));
+
+  // Managers' own discounts need no second approval
+  app.post("/api/estimates/:id/discount", canEditEstimates, asyncHandler(async (req, res) => {
+    const parsed = requestDiscountSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+
+    const selfApproved = hasPermission(req.user, "discounts:approve");
+    const estimate = await storage.updateEstimate(req.params.id, {
+      discountPercent: parsed.data.percent,
+      discountStatus: selfApproved ? "approved" : "pending",
+      discountReviewedBy: selfApproved ? req.user!.id : null,
+    });
+    if (!estimate) {
+      return res.status(404).json({ message: "Estimate not found" });
+    }
+    res.json(await withCustomer(estimate));
+  }));
+
+  app.post("/api/estimates/:id/discount/review", canApproveDiscounts, asyncHandler(async (req, res) => {
+    const parsed = reviewDiscountSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+
+    const existing = await storage.getEstimate(req.params.id);
+    if (!existing) {
+      return res.status(404).json({ message: "Estimate not found" });
+    }
+    if (existing.discountStatus !== "pending") {
+      return res.status(409).json({ message: "This estimate has no discount awaiting approval" });
+    }
+
+    const estimate = await storage.updateEstimate(existing.id, {
+      discountStatus: parsed.data.approved ? "approved" : "rejected",
+      discountReviewedBy: req.user!.id,
+    });
+    res.json(await withCustomer(estimate ?? existing));
+  }));
+
+  app.delete("/api/estimates/:id/discount", canEditEstimates, asyncHandler(async (req, res) => {
+    const estimate = await storage.updateEstimate(req.params.id, {
+      discountPercent: 0,
+      discountStatus: "none",
+      discountReviewedBy: null,
+    });
+    if (!estimate) {
+      return res.status(404).json({ message: "Estimate not found" });
+    }
+    res.json(await withCustomer(estimate));
+  }));
+
+  app.get("/api/estimates/:id/share-links", canEditEstimates, asyncHandler(async (req, res) => {
+    const estimate = await storage.getEstimate(req.params.id);
+    if (!estimate) {
+      return res.status(404).json({ message: "Estimate not found" });
+    }
+    res.json(await storage.getShareLinks(estimate.id));
+  }));
+
+  app.post("/api/estimates/:id/share-links", canEditEstimates, asyncHandler(async (req, res) => {
+    const parsed = createShareLinkSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+
+    const estimate = await storage.getEstimate(req.params.id);
+    if (!estimate) {
+      return res.status(404).json({ message: "Estimate not found" });
+    }
+
+    const { expiresInDays } = parsed.data;
+    const link = await storage.createShareLink({
+      estimateId: estimate.id,
+      token: randomBytes(24).toString("base64url"),
+      expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * 86400000) : null,
+      createdBy: req.user!.id,
+    });
+    res.status(201).json(link);
+  }));
+
+  app.delete("/api/share-links/:id", canEditEstimates, asyncHandler(async (req, res) => {
+    const link = await storage.revokeShareLink(req.params.id);
+    if (!link) {
+      return res.status(404).json({ message: "Share link not found" });
+    }
+    res.json(link);
+  }));
+
+  // Public: the token is the credential. Revoked links look like unknown ones.
+  app.get("/api/shared-estimates/:token", asyncHandler(async (req, res) => {
+    const shared = await findSharedEstimate(req.params.token);
+    if ("status" in shared) {
+      return sendCustomerError(res, shared.status, shared.code, shared.message);
+    }
+    res.json(await toSharedEstimate(shared.estimate, shared.link.expiresAt));
+  }));
+
+  // Public: the customer picks a tier once; changing it afterwards goes through staff
+  app.post("/api/shared-estimates/:token/accept", asyncHandler(async (req, res) => {
+    const parsed = acceptTierSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+
+    const shared = await findSharedEstimate(req.params.token);
+    if ("status" in shared) {
+      return sendCustomerError(res, shared.status, shared.code, shared.message);
+    }
+    if (shared.estimate.acceptedTier) {
+      return sendCustomerError(res, 409, "error.alreadyAccepted", "This estimate has already been accepted");
+    }
+
+    const estimate = await acceptTier(shared.estimate, parsed.data.tier, undefined);
+    if (typeof estimate === "string") {
+      return sendCustomerError(res, 400, "error.optionUnavailable", estimate);
+    }
+    res.json(await toSharedEstimate(estimate, shared.link.expiresAt));
+  }));
+
+  // Public: homeowners send the calculator inputs and we price them here, so
+  // the lead keeps exactly the estimate they saw
+  app.post("/api/leads", asyncHandler(async (req, res) => {
+    const parsed = insertLeadSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+
+    const version = await storage.getCurrentPriceBookVersion();
+    if (!version) {
+      return sendCustomerError(res, 503, "error.noPriceBook", "No price book is in effect");
+    }
+
+    const priced = await priceEstimate(parsed.data.formData, version);
+    if (typeof priced === "string") {
+      return sendCustomerError(res, 400, "error.priceUnavailable", priced);
+    }
+
+    const { name, phone, email, address, preferredContactTime, language, formData } = parsed.data;
+    const { priceBookVersionId, ...breakdown } = priced;
+    const lead = await storage.createLead({
+      name,
+      phone: phone || null,
+      email: email || null,
+      address: address || null,
+      preferredContactTime,
+      language,
+      formData,
+      breakdown,
+      priceBookVersionId,
+    });
+    res.status(201).json({ id: lead.id });
+  }));
+
+  app.get("/api/leads", canEditEstimates, asyncHandler(async (_req, res) => {
+    res.json(await storage.getLeads());
+  }));
+
+  app.get("/api/leads/:id", canEditEstimates, asyncHandler(async (req, res) => {
+    const lead = await storage.getLead(req.params.id);
+    if (!lead) {
+      return res.status(404).json({ message: "Lead not found" });
+    }
+    res.json(lead);
+  }));
+
+  app.patch("/api/leads/:id", canEditEstimates, asyncHandler(async (req, res) => {
+    const parsed = updateLeadSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+
+    const lead = await storage.updateLead(req.params.id, parsed.data);
+    if (!lead) {
+      return res.status(404).json({ message: "Lead not found" });
+    }
+    res.json(lead);
+  }));
+
+  app.get("/api/reports/estimates", canViewReports, asyncHandler(async (_req, res) => {
+    const [estimates, users] = await Promise.all([
+      storage.getEstimates(),
+      storage.getUsers(),
+    ]);
+    res.json(await buildEstimateReport(estimates, users));
+  }));
+
+  app.get("/api/users", canManageUsers, asyncHandler(async (_req, res) => {
+    const users = await storage.getUsers();
+    res.json(users.map(toSafeUser));
+  }));
+
+  app.patch("/api/users/:id", canManageUsers, asyncHandler(async (req, res) => {
+    const parsed = updateUserSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+    // Keeps at least one admin able to manage users
+    if (req.params.id === req.user!.id && parsed.data.role !== "admin") {
+      return res.status(400).json({ message: "You can't remove your own admin access" });
+    }
+
+    const user = await storage.updateUser(req.params.id, parsed.data);
+    if (!user) {
+      return res.status(404).json({ message: "User not found" });
+    }
+    res.json(toSafeUser(user));
+  }));
+
+  // Reprices a saved estimate with the current price book to show what changed
+  app.get("/api/estimates/:id/recalculate", canEditEstimates, asyncHandler(async (req, res) => {
+    const estimate = await storage.getEstimate(req.params.id);
+    if (!estimate) {
+      return res.status(404).json({ message: "Estimate not found" });
+    }
+
+    const currentVersion = await storage.getCurrentPriceBookVersion();
+    if (!currentVersion) {
+      return res.status(503).json({ message: "No price book is in effect" });
+    }
+
+    const current = await priceEstimate(estimate.formData, currentVersion);
+    if (typeof current === "string") {
+      return res.status(400).json({ message: current });
+    }
+
+    const original = { ...estimate.breakdown, priceBookVersionId: estimate.priceBookVersionId };
+    const recalculation: EstimateRecalculation = {
+      original,
+      current,
+      delta: estimateDelta(original, current),
+    };
+    res.json(recalculation);
+  }));
+
   const httpServer = createServer(app);
 
   return httpServer;
@@ -0,0 +1,48 @@
+import { defaultPriceBook, defaultPriceBookRates } from "@shared/roofing-calculations";
+import { defaultCostIndexes } from "@shared/regional-pricing";
+import { createDatabase } from "./db";
+import { DatabaseStorage, DEFAULT_PRICE_BOOK_VERSION } from "./storage";
+
+// Loads the built-in price book and cost indexes into an empty database, and
+// makes ADMIN_USERNAME an admin when set.
+// Safe to re-run: existing price book versions and cost indexes are left alone.
+async function seed() {
+  if (!process.env.DATABASE_URL) {
+    throw new Error("DATABASE_URL, ensure the database is provisioned");
+  }
+
+  const storage = new DatabaseStorage(createDatabase(process.env.DATABASE_URL));
+
+  const versions = await storage.getPriceBookVersions();
+  if (versions.length === 0) {
+    await storage.createPriceBookVersion(DEFAULT_PRICE_BOOK_VERSION, defaultPriceBook(), defaultPriceBookRates());
+    console.log(`created price book "${DEFAULT_PRICE_BOOK_VERSION.label}"`);
+  }
+
+  // Only ZIP codes not in the index yet, so edits made in the app are kept
+  const existingZipCodes = new Set((await storage.getCostIndexes()).map((costIndex) => costIndex.zipCode));
+  const missing = defaultCostIndexes().filter((costIndex) => !existingZipCodes.has(costIndex.zipCode));
+  for (const { zipCode, region, laborMultiplier, materialMultiplier } of missing) {
+    await storage.upsertCostIndex({ zipCode, region, laborMultiplier, materialMultiplier });
+  }
+  console.log(`loaded ${missing.length} cost indexes`);
+
+  // Accounts created before roles default to homeowner; promote the named one
+  const adminUsername = process.env.ADMIN_USERNAME;
+  if (adminUsername) {
+    const admin = await storage.getUserByUsername(adminUsername);
+    if (!admin) {
+      throw new Error(`ADMIN_USERNAME "${adminUsername}" does not match any user`);
+    }
+    await storage.updateUser(admin.id, { role: "admin" });
+    console.log(`granted admin to "${adminUsername}"`);
+  }
+}
+
+seed().then(
+  () => process.exit(0),
+  (error) => {
+    console.error(error);
+    process.exit(1);
+  },
+);
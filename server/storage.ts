@@ -1,20 +1,145 @@
-import { type User, type InsertUser } from "@shared/schema";
+import {
+  type User,
+  type CreateUser,
+  type UpdateUser,
+  type PriceBookEntry,
+  type InsertPriceBookEntry,
+  type PriceBookRate,
+  type InsertPriceBookRate,
+  type PriceBookVersion,
+  type InsertPriceBookVersion,
+  type CostIndexRecord,
+  type InsertCostIndex,
+  type Customer,
+  type InsertCustomer,
+  type Estimate,
+  type NewEstimate,
+  type Lead,
+  type NewLead,
+  type UpdateLead,
+  type EstimateShareLink,
+  type NewEstimateShareLink,
+  type EstimateRevision,
+  type NewEstimateRevision,
+  users,
+  priceBookVersions,
+  priceBookEntries,
+  priceBookRates,
+  costIndexes,
+  customers,
+  estimates,
+  leads,
+  estimateShareLinks,
+  estimateRevisions,
+} from "@shared/schema";
+import { defaultPriceBook, defaultPriceBookRates } from "@shared/roofing-calculations";
+import { defaultCostIndexes } from "@shared/regional-pricing";
 import { randomUUID } from "crypto";
+import { asc, desc, eq, lte, sql } from "drizzle-orm";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import { createDatabase, type Database } from "./db";
+
+const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPg(session);
+
+export const DEFAULT_PRICE_BOOK_VERSION: InsertPriceBookVersion = {
+  label: "2025 Torrance, CA",
+  effectiveFrom: new Date("2025-01-01T00:00:00Z"),
+};
 
 // modify the interface with any CRUD methods
 // you might need
 
 export interface IStorage {
+  sessionStore: session.Store;
+  getUsers(): Promise<User[]>;
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
-  createUser(user: InsertUser): Promise<User>;
+  createUser(user: CreateUser): Promise<User>;
+  updateUser(id: string, user: Partial<UpdateUser>): Promise<User | undefined>;
+  getPriceBookVersions(): Promise<PriceBookVersion[]>;
+  getPriceBookVersion(id: string): Promise<PriceBookVersion | undefined>;
+  getCurrentPriceBookVersion(at?: Date): Promise<PriceBookVersion | undefined>;
+  getPriceBookEntries(versionId: string): Promise<PriceBookEntry[]>;
+  getPriceBookRates(versionId: string): Promise<PriceBookRate[]>;
+  createPriceBookVersion(
+    version: InsertPriceBookVersion,
+    entries: InsertPriceBookEntry[],
+    rates: InsertPriceBookRate[],
+  ): Promise<PriceBookVersion>;
+  getCostIndexes(): Promise<CostIndexRecord[]>;
+  getCostIndexByZip(zipCode: string): Promise<CostIndexRecord | undefined>;
+  upsertCostIndex(costIndex: InsertCostIndex): Promise<CostIndexRecord>;
+  getCustomers(): Promise<Customer[]>;
+  getCustomer(id: string): Promise<Customer | undefined>;
+  createCustomer(customer: InsertCustomer): Promise<Customer>;
+  updateCustomer(
+    id: string,
+    customer: Partial<InsertCustomer>,
+  ): Promise<Customer | undefined>;
+  getEstimates(): Promise<Estimate[]>;
+  getEstimate(id: string): Promise<Estimate | undefined>;
+  createEstimate(estimate: NewEstimate): Promise<Estimate>;
+  updateEstimate(
+    id: string,
+    estimate: Partial<NewEstimate>,
+  ): Promise<Estimate | undefined>;
+  deleteEstimate(id: string): Promise<boolean>;
+  getLeads(): Promise<Lead[]>;
+  getLead(id: string): Promise<Lead | undefined>;
+  createLead(lead: NewLead): Promise<Lead>;
+  updateLead(id: string, lead: Partial<UpdateLead>): Promise<Lead | undefined>;
+  getShareLinks(estimateId: string): Promise<EstimateShareLink[]>;
+  getShareLink(id: string): Promise<EstimateShareLink | undefined>;
+  getShareLinkByToken(token: string): Promise<EstimateShareLink | undefined>;
+  createShareLink(link: NewEstimateShareLink): Promise<EstimateShareLink>;
+  revokeShareLink(id: string): Promise<EstimateShareLink | undefined>;
+  getRevisions(estimateId: string): Promise<EstimateRevision[]>;
+  getRevision(id: string): Promise<EstimateRevision | undefined>;
+  createRevision(revision: NewEstimateRevision): Promise<EstimateRevision>;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<string, User>;
+  private priceBookVersions: Map<string, PriceBookVersion>;
+  private priceBookEntries: Map<string, PriceBookEntry>;
+  private priceBookRates: Map<string, PriceBookRate>;
+  private costIndexes: Map<string, CostIndexRecord>;
+  private customers: Map<string, Customer>;
+  private estimates: Map<string, Estimate>;
+  private leads: Map<string, Lead>;
+  private shareLinks: Map<string, EstimateShareLink>;
+  private revisions: Map<string, EstimateRevision>;
+  sessionStore: session.Store;
 
   constructor() {
     this.users = new Map();
+    this.priceBookVersions = new Map();
+    this.priceBookEntries = new Map();
+    this.priceBookRates = new Map();
+    this.costIndexes = new Map();
+    this.customers = new Map();
+    this.estimates = new Map();
+    this.leads = new Map();
+    this.shareLinks = new Map();
+    this.revisions = new Map();
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 86400000, // prune expired sessions daily
+    });
+
+    for (const costIndex of defaultCostIndexes()) {
+      this.upsertCostIndex(costIndex);
+    }
+
+    this.createPriceBookVersion(DEFAULT_PRICE_BOOK_VERSION, defaultPriceBook(), defaultPriceBookRates());
+  }
+
+  async getUsers(): Promise<User[]> {
+    return Array.from(this.users.values()).sort((a, b) =>
+      a.username.localeCompare(b.username),
+    );
   }
 
   async getUser(id: string): Promise<User | undefined> {
@@ -27,12 +152,616 @@ export class MemStorage implements IStorage {
     );
   }
 
-  async createUser(insertUser: InsertUser): Promise<User> {
+  async createUser(insertUser: CreateUser): Promise<User> {
     const id = randomUUID();
     const user: User = { ...insertUser, id };
     this.users.set(id, user);
     return user;
   }
+
+  async updateUser(
+    id: string,
+    changes: Partial<UpdateUser>,
+  ): Promise<User | undefined> {
+    const existing = this.users.get(id);
+    if (!existing) {
+      return undefined;
+    }
+    const user: User = { ...existing, ...changes };
+    this.users.set(id, user);
+    return user;
+  }
+
+  async getPriceBookVersions(): Promise<PriceBookVersion[]> {
+    return Array.from(this.priceBookVersions.values()).sort(
+      (a, b) => b.effectiveFrom.getTime() - a.effectiveFrom.getTime(),
+    );
+  }
+
+  async getPriceBookVersion(id: string): Promise<PriceBookVersion | undefined> {
+    return this.priceBookVersions.get(id);
+  }
+
+  async getCurrentPriceBookVersion(
+    at: Date = new Date(),
+  ): Promise<PriceBookVersion | undefined> {
+    const versions = await this.getPriceBookVersions();
+    return versions.find((version) => version.effectiveFrom <= at);
+  }
+
+  async getPriceBookEntries(versionId: string): Promise<PriceBookEntry[]> {
+    return Array.from(this.priceBookEntries.values()).filter(
+      (entry) => entry.versionId === versionId,
+    );
+  }
+
+  async getPriceBookRates(versionId: string): Promise<PriceBookRate[]> {
+    return Array.from(this.priceBookRates.values()).filter(
+      (rate) => rate.versionId === versionId,
+    );
+  }
+
+  async createPriceBookVersion(
+    insertVersion: InsertPriceBookVersion,
+    entries: InsertPriceBookEntry[],
+    rates: InsertPriceBookRate[],
+  ): Promise<PriceBookVersion> {
+    const id = randomUUID();
+    const version: PriceBookVersion = { ...insertVersion, id, createdAt: new Date() };
+    this.priceBookVersions.set(id, version);
+
+    for (const insertEntry of entries) {
+      const entryId = randomUUID();
+      this.priceBookEntries.set(entryId, { ...insertEntry, id: entryId, versionId: id });
+    }
+    for (const insertRate of rates) {
+      const rateId = randomUUID();
+      this.priceBookRates.set(rateId, { ...insertRate, id: rateId, versionId: id });
+    }
+    return version;
+  }
+
+  async getCostIndexes(): Promise<CostIndexRecord[]> {
+    return Array.from(this.costIndexes.values()).sort((a, b) =>
+      a.zipCode.localeCompare(b.zipCode),
+    );
+  }
+
+  async getCostIndexByZip(
+    zipCode: string,
+  ): Promise<CostIndexRecord | undefined> {
+    return Array.from(this.costIndexes.values()).find(
+      (costIndex) => costIndex.zipCode === zipCode,
+    );
+  }
+
+  async upsertCostIndex(
+    insertCostIndex: InsertCostIndex,
+  ): Promise<CostIndexRecord> {
+    const existing = await this.getCostIndexByZip(insertCostIndex.zipCode);
+    const id = existing?.id ?? randomUUID();
+    const costIndex: CostIndexRecord = { ...insertCostIndex, id };
+    this.costIndexes.set(id, costIndex);
+    return costIndex;
+  }
+
+  async getCustomers(): Promise<Customer[]> {
+    return Array.from(this.customers.values()).sort((a, b) =>
+      a.name.localeCompare(b.name),
+    );
+  }
+
+  async getCustomer(id: string): Promise<Customer | undefined> {
+    return this.customers.get(id);
+  }
+
+  async createCustomer(insertCustomer: InsertCustomer): Promise<Customer> {
+    const id = randomUUID();
+    const customer: Customer = {
+      name: insertCustomer.name,
+      email: insertCustomer.email ?? null,
+      phone: insertCustomer.phone ?? null,
+      address: insertCustomer.address ?? null,
+      language: insertCustomer.language ?? "en",
+      id,
+      createdAt: new Date(),
+    };
+    this.customers.set(id, customer);
+    return customer;
+  }
+
+  async updateCustomer(
+    id: string,
+    changes: Partial<InsertCustomer>,
+  ): Promise<Customer | undefined> {
+    const existing = this.customers.get(id);
+    if (!existing) {
+      return undefined;
+    }
+    const customer: Customer = { ...existing, ...changes };
+    this.customers.set(id, customer);
+    return customer;
+  }
+
+  async getEstimates(): Promise<Estimate[]> {
+    return Array.from(this.estimates.values()).sort(
+      (a, b) => b.updatedAt.getTime() - a.updatedAt.getTime(),
+    );
+  }
+
+  async getEstimate(id: string): Promise<Estimate | undefined> {
+    return this.estimates.get(id);
+  }
+
+  async createEstimate(newEstimate: NewEstimate): Promise<Estimate> {
+    const id = randomUUID();
+    const now = new Date();
+    const estimate: Estimate = {
+      ...newEstimate,
+      customerId: newEstimate.customerId ?? null,
+      discountPercent: newEstimate.discountPercent ?? 0,
+      discountStatus: newEstimate.discountStatus ?? "none",
+      discountReviewedBy: newEstimate.discountReviewedBy ?? null,
+      createdBy: newEstimate.createdBy ?? null,
+      tiers: newEstimate.tiers ?? [],
+      acceptedTier: newEstimate.acceptedTier ?? null,
+      acceptedAt: newEstimate.acceptedAt ?? null,
+      id,
+      createdAt: newEstimate.createdAt ?? now,
+      updatedAt: newEstimate.updatedAt ?? now,
+    };
+    this.estimates.set(id, estimate);
+    return estimate;
+  }
+
+  async updateEstimate(
+    id: string,
+    changes: Partial<NewEstimate>,
+  ): Promise<Estimate | undefined> {
+    const existing = this.estimates.get(id);
+    if (!existing) {
+      return undefined;
+    }
+    const estimate: Estimate = { ...existing, ...changes, updatedAt: new Date() };
+    this.estimates.set(id, estimate);
+    return estimate;
+  }
+
+  async deleteEstimate(id: string): Promise<boolean> {
+    // Mirrors the ON DELETE CASCADE on estimate_share_links and estimate_revisions
+    for (const link of Array.from(this.shareLinks.values())) {
+      if (link.estimateId === id) {
+        this.shareLinks.delete(link.id);
+      }
+    }
+    for (const revision of Array.from(this.revisions.values())) {
+      if (revision.estimateId === id) {
+        this.revisions.delete(revision.id);
+      }
+    }
+    return this.estimates.delete(id);
+  }
+
+  async getLeads(): Promise<Lead[]> {
+    return Array.from(this.leads.values()).sort(
+      (a, b) => b.createdAt.getTime() - a.createdAt.getTime(),
+    );
+  }
+
+  async getLead(id: string): Promise<Lead | undefined> {
+    return this.leads.get(id);
+  }
+
+  async createLead(newLead: NewLead): Promise<Lead> {
+    const id = randomUUID();
+    const lead: Lead = {
+      ...newLead,
+      phone: newLead.phone ?? null,
+      email: newLead.email ?? null,
+      address: newLead.address ?? null,
+      preferredContactTime: newLead.preferredContactTime ?? "anytime",
+      language: newLead.language ?? "en",
+      status: newLead.status ?? "new",
+      id,
+      createdAt: new Date(),
+    };
+    this.leads.set(id, lead);
+    return lead;
+  }
+
+  async updateLead(
+    id: string,
+    changes: Partial<UpdateLead>,
+  ): Promise<Lead | undefined> {
+    const existing = this.leads.get(id);
+    if (!existing) {
+      return undefined;
+    }
+    const lead: Lead = { ...existing, ...changes };
+    this.leads.set(id, lead);
+    return lead;
+  }
+
+  async getShareLinks(estimateId: string): Promise<EstimateShareLink[]> {
+    return Array.from(this.shareLinks.values())
+      .filter((link) => link.estimateId === estimateId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getShareLink(id: string): Promise<EstimateShareLink | undefined> {
+    return this.shareLinks.get(id);
+  }
+
+  async getShareLinkByToken(
+    token: string,
+  ): Promise<EstimateShareLink | undefined> {
+    return Array.from(this.shareLinks.values()).find(
+      (link) => link.token === token,
+    );
+  }
+
+  async createShareLink(
+    newLink: NewEstimateShareLink,
+  ): Promise<EstimateShareLink> {
+    const id = randomUUID();
+    const link: EstimateShareLink = {
+      ...newLink,
+      expiresAt: newLink.expiresAt ?? null,
+      createdBy: newLink.createdBy ?? null,
+      revokedAt: null,
+      id,
+      createdAt: new Date(),
+    };
+    this.shareLinks.set(id, link);
+    return link;
+  }
+
+  async revokeShareLink(id: string): Promise<EstimateShareLink | undefined> {
+    const existing = this.shareLinks.get(id);
+    if (!existing) {
+      return undefined;
+    }
+    const link: EstimateShareLink = {
+      ...existing,
+      revokedAt: existing.revokedAt ?? new Date(),
+    };
+    this.shareLinks.set(id, link);
+    return link;
+  }
+
+  async getRevisions(estimateId: string): Promise<EstimateRevision[]> {
+    return Array.from(this.revisions.values())
+      .filter((revision) => revision.estimateId === estimateId)
+      .sort((a, b) => b.number - a.number);
+  }
+
+  async getRevision(id: string): Promise<EstimateRevision | undefined> {
+    return this.revisions.get(id);
+  }
+
+  async createRevision(
+    newRevision: NewEstimateRevision,
+  ): Promise<EstimateRevision> {
+    const id = randomUUID();
+    const revision: EstimateRevision = {
+      ...newRevision,
+      note: newRevision.note ?? null,
+      createdBy: newRevision.createdBy ?? null,
+      id,
+      createdAt: new Date(),
+    };
+    this.revisions.set(id, revision);
+    return revision;
+  }
+}
+
+// Postgres-backed storage. Run `npm run db:push` and `npm run db:seed` to
+// create the tables and load the default price book and cost indexes.
+export class DatabaseStorage implements IStorage {
+  sessionStore: session.Store;
+
+  constructor(private db: Database) {
+    this.sessionStore = new PostgresSessionStore({
+      pool: db.$client,
+      createTableIfMissing: true,
+    });
+  }
+
+  async getUsers(): Promise<User[]> {
+    return this.db.select().from(users).orderBy(asc(users.username));
+  }
+
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db
+      .select()
+      .from(users)
+      .where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: CreateUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async updateUser(
+    id: string,
+    changes: Partial<UpdateUser>,
+  ): Promise<User | undefined> {
+    const [user] = await this.db
+      .update(users)
+      .set(changes)
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
+  async getPriceBookVersions(): Promise<PriceBookVersion[]> {
+    return this.db
+      .select()
+      .from(priceBookVersions)
+      .orderBy(desc(priceBookVersions.effectiveFrom));
+  }
+
+  async getPriceBookVersion(id: string): Promise<PriceBookVersion | undefined> {
+    const [version] = await this.db
+      .select()
+      .from(priceBookVersions)
+      .where(eq(priceBookVersions.id, id));
+    return version;
+  }
+
+  async getCurrentPriceBookVersion(
+    at: Date = new Date(),
+  ): Promise<PriceBookVersion | undefined> {
+    const [version] = await this.db
+      .select()
+      .from(priceBookVersions)
+      .where(lte(priceBookVersions.effectiveFrom, at))
+      .orderBy(desc(priceBookVersions.effectiveFrom))
+      .limit(1);
+    return version;
+  }
+
+  async getPriceBookEntries(versionId: string): Promise<PriceBookEntry[]> {
+    return this.db
+      .select()
+      .from(priceBookEntries)
+      .where(eq(priceBookEntries.versionId, versionId));
+  }
+
+  async getPriceBookRates(versionId: string): Promise<PriceBookRate[]> {
+    return this.db
+      .select()
+      .from(priceBookRates)
+      .where(eq(priceBookRates.versionId, versionId));
+  }
+
+  async createPriceBookVersion(
+    insertVersion: InsertPriceBookVersion,
+    entries: InsertPriceBookEntry[],
+    rates: InsertPriceBookRate[],
+  ): Promise<PriceBookVersion> {
+    return this.db.transaction(async (tx) => {
+      const [version] = await tx
+        .insert(priceBookVersions)
+        .values(insertVersion)
+        .returning();
+      if (entries.length > 0) {
+        await tx
+          .insert(priceBookEntries)
+          .values(entries.map((entry) => ({ ...entry, versionId: version.id })));
+      }
+      if (rates.length > 0) {
+        await tx
+          .insert(priceBookRates)
+          .values(rates.map((rate) => ({ ...rate, versionId: version.id })));
+      }
+      return version;
+    });
+  }
+
+  async getCostIndexes(): Promise<CostIndexRecord[]> {
+    return this.db.select().from(costIndexes).orderBy(costIndexes.zipCode);
+  }
+
+  async getCostIndexByZip(
+    zipCode: string,
+  ): Promise<CostIndexRecord | undefined> {
+    const [costIndex] = await this.db
+      .select()
+      .from(costIndexes)
+      .where(eq(costIndexes.zipCode, zipCode));
+    return costIndex;
+  }
+
+  async upsertCostIndex(
+    insertCostIndex: InsertCostIndex,
+  ): Promise<CostIndexRecord> {
+    const [costIndex] = await this.db
+      .insert(costIndexes)
+      .values(insertCostIndex)
+      .onConflictDoUpdate({ target: costIndexes.zipCode, set: insertCostIndex })
+      .returning();
+    return costIndex;
+  }
+
+  async getCustomers(): Promise<Customer[]> {
+    return this.db.select().from(customers).orderBy(customers.name);
+  }
+
+  async getCustomer(id: string): Promise<Customer | undefined> {
+    const [customer] = await this.db
+      .select()
+      .from(customers)
+      .where(eq(customers.id, id));
+    return customer;
+  }
+
+  async createCustomer(insertCustomer: InsertCustomer): Promise<Customer> {
+    const [customer] = await this.db
+      .insert(customers)
+      .values(insertCustomer)
+      .returning();
+    return customer;
+  }
+
+  async updateCustomer(
+    id: string,
+    changes: Partial<InsertCustomer>,
+  ): Promise<Customer | undefined> {
+    const [customer] = await this.db
+      .update(customers)
+      .set(changes)
+      .where(eq(customers.id, id))
+      .returning();
+    return customer;
+  }
+
+  async getEstimates(): Promise<Estimate[]> {
+    return this.db.select().from(estimates).orderBy(desc(estimates.updatedAt));
+  }
+
+  async getEstimate(id: string): Promise<Estimate | undefined> {
+    const [estimate] = await this.db
+      .select()
+      .from(estimates)
+      .where(eq(estimates.id, id));
+    return estimate;
+  }
+
+  async createEstimate(newEstimate: NewEstimate): Promise<Estimate> {
+    const [estimate] = await this.db
+      .insert(estimates)
+      .values(newEstimate)
+      .returning();
+    return estimate;
+  }
+
+  async updateEstimate(
+    id: string,
+    changes: Partial<NewEstimate>,
+  ): Promise<Estimate | undefined> {
+    const [estimate] = await this.db
+      .update(estimates)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(estimates.id, id))
+      .returning();
+    return estimate;
+  }
+
+  async deleteEstimate(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(estimates)
+      .where(eq(estimates.id, id))
+      .returning({ id: estimates.id });
+    return deleted.length > 0;
+  }
+
+  async getLeads(): Promise<Lead[]> {
+    return this.db.select().from(leads).orderBy(desc(leads.createdAt));
+  }
+
+  async getLead(id: string): Promise<Lead | undefined> {
+    const [lead] = await this.db.select().from(leads).where(eq(leads.id, id));
+    return lead;
+  }
+
+  async createLead(newLead: NewLead): Promise<Lead> {
+    const [lead] = await this.db.insert(leads).values(newLead).returning();
+    return lead;
+  }
+
+  async updateLead(
+    id: string,
+    changes: Partial<UpdateLead>,
+  ): Promise<Lead | undefined> {
+    const [lead] = await this.db
+      .update(leads)
+      .set(changes)
+      .where(eq(leads.id, id))
+      .returning();
+    return lead;
+  }
+
+  async getShareLinks(estimateId: string): Promise<EstimateShareLink[]> {
+    return this.db
+      .select()
+      .from(estimateShareLinks)
+      .where(eq(estimateShareLinks.estimateId, estimateId))
+      .orderBy(desc(estimateShareLinks.createdAt));
+  }
+
+  async getShareLink(id: string): Promise<EstimateShareLink | undefined> {
+    const [link] = await this.db
+      .select()
+      .from(estimateShareLinks)
+      .where(eq(estimateShareLinks.id, id));
+    return link;
+  }
+
+  async getShareLinkByToken(
+    token: string,
+  ): Promise<EstimateShareLink | undefined> {
+    const [link] = await this.db
+      .select()
+      .from(estimateShareLinks)
+      .where(eq(estimateShareLinks.token, token));
+    return link;
+  }
+
+  async createShareLink(
+    newLink: NewEstimateShareLink,
+  ): Promise<EstimateShareLink> {
+    const [link] = await this.db
+      .insert(estimateShareLinks)
+      .values(newLink)
+      .returning();
+    return link;
+  }
+
+  async revokeShareLink(id: string): Promise<EstimateShareLink | undefined> {
+    // Keep the first revocation time if it is revoked twice
+    const [link] = await this.db
+      .update(estimateShareLinks)
+      .set({ revokedAt: sql`coalesce(${estimateShareLinks.revokedAt}, now())` })
+      .where(eq(estimateShareLinks.id, id))
+      .returning();
+    return link;
+  }
+
+  async getRevisions(estimateId: string): Promise<EstimateRevision[]> {
+    return this.db
+      .select()
+      .from(estimateRevisions)
+      .where(eq(estimateRevisions.estimateId, estimateId))
+      .orderBy(desc(estimateRevisions.number));
+  }
+
+  async getRevision(id: string): Promise<EstimateRevision | undefined> {
+    const [revision] = await this.db
+      .select()
+      .from(estimateRevisions)
+      .where(eq(estimateRevisions.id, id));
+    return revision;
+  }
+
+  async createRevision(
+    newRevision: NewEstimateRevision,
+  ): Promise<EstimateRevision> {
+    const [revision] = await this.db
+      .insert(estimateRevisions)
+      .values(newRevision)
+      .returning();
+    return revision;
+  }
 }
 
-export const storage = new MemStorage();
+export const storage: IStorage = process.env.DATABASE_URL
+  ? new DatabaseStorage(createDatabase(process.env.DATABASE_URL))
+  : new MemStorage();
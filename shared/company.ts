@@ -0,0 +1,12 @@
+import { DEFAULT_LOCALE, translate, type Locale } from './i18n';
+
+export const COMPANY = {
+  name: 'Torrance Roofing Masters',
+  contactUrl: 'https://torranceroofingmasters.com/contact/',
+  serviceArea: 'South Bay and Orange County'
+};
+
+// Shown under every estimate and printed on proposals
+export function estimateDisclaimer(region: string, locale: Locale = DEFAULT_LOCALE): string {
+  return translate(locale, 'disclaimer.estimate', { region });
+}
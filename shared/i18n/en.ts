@@ -0,0 +1,310 @@
+// English messages. Keys are grouped by where they appear; {name} placeholders
+// are filled in by translate().
+export const en = {
+  // Calculator
+  "calculator.title": "Roofing Cost Calculator",
+  "calculator.subtitle": "Get an instant estimate for your roofing project in the {serviceArea}",
+  "calculator.mode": "Calculator mode",
+  "calculator.modeWizard": "Step by step",
+  "calculator.modePro": "Pro mode",
+  "calculator.projectDetails": "Project Details",
+  "calculator.roofingType": "Roofing Type",
+  "calculator.roofSize": "Roof Size (Square Feet)",
+  "calculator.roofSizePlaceholder": "Enter roof size",
+  "calculator.roofSizeHint": "Maximum {max} sq ft",
+  "calculator.zipCode": "Project ZIP Code",
+  "calculator.zipCodePlaceholder": "e.g. 90503",
+  "calculator.zipCodeHint": "Adjusts labor and material costs for your area",
+  "calculator.material": "Roofing Material",
+  "calculator.materialsLoading": "Loading materials...",
+  "calculator.materialPlaceholder": "Select a material",
+  "calculator.materialOption": "{material} ({low}-{high}/sq ft)",
+  "calculator.jobType": "Job Type",
+  "calculator.complexity": "Roof Complexity",
+  "calculator.addons": "Add-ons",
+  "calculator.tearoff": "Tear-off of Old Roof (+$1-$2/sq ft)",
+  "calculator.tearoffHint": "Full replacements only",
+  "calculator.permits": "Building Permits (+$400-$600)",
+  "calculator.getEstimate": "Get Estimate",
+  "calculator.reset": "Reset",
+  "calculator.downloadProposal": "Download Proposal (PDF)",
+  "calculator.sizeHelperTitle": "Need Help Estimating Roof Size?",
+  "calculator.estimateFailed": "Estimate Failed",
+  "calculator.missingInformation": "Missing Information",
+  "calculator.missingSection": "Please enter the length and width of at least one roof section",
+  "calculator.language": "Language",
+
+  "roofingType.residential": "Residential",
+  "roofingType.commercial": "Commercial",
+  "jobType.new": "New Installation",
+  "jobType.replacement": "Full Replacement",
+  "jobType.repair": "Repair/Partial",
+  "complexity.simple": "Simple/Low Pitch (+0%)",
+  "complexity.medium": "Medium/Standard (+20%)",
+  "complexity.complex": "Complex/Steep Pitch & Multi-Level (+40%)",
+  "tier.good": "Good",
+  "tier.better": "Better",
+  "tier.best": "Best",
+  "option.productLine": "{line} line",
+  "units.sqFt": "{value} sq ft",
+
+  "disclaimer.label": "Disclaimer:",
+  "disclaimer.estimate":
+    "This is an estimate based on 2025 {region} averages. Actual costs may vary due to site inspection, current market fluctuations, and specific requirements.",
+  "disclaimer.firmQuote": "For a firm quote, contact",
+
+  // Roof size helper
+  "sizeHelper.facetsHint":
+    "Measure each section of the roof separately, such as each wing of an L-shaped house or each level.",
+  "sizeHelper.addSection": "Add Roof Section",
+  "sizeHelper.overhang": "Overhang (Inches)",
+  "sizeHelper.overhangPlaceholder": "Enter overhang",
+  "sizeHelper.overhangHint": "Applied to every exposed edge of each section",
+  "sizeHelper.valleys": "Valleys",
+  "sizeHelper.valleysPlaceholder": "Number of valleys",
+  "sizeHelper.valleysHint": "Inside corners where two roof sections meet. More cuts mean more waste.",
+  "sizeHelper.calculate": "Calculate Roof Size",
+  "sizeHelper.measuredArea": "Measured Roof Area:",
+  "sizeHelper.waste": "Waste ({percent}%):",
+  "sizeHelper.estimatedSize": "Estimated Roof Size:",
+  "sizeHelper.wasteHint": "Select a material and recalculate for a material-specific waste factor.",
+
+  "facet.title": "Section {number}",
+  "facet.remove": "Remove section {number}",
+  "facet.shape": "Shape",
+  "facet.length": "Length (ft)",
+  "facet.width": "Width (ft)",
+  "facet.pitch": "Pitch",
+  "facet.pitchCustom": "Custom",
+  "facet.risePlaceholder": "Rise / 12",
+  "facet.riseLabel": "Rise in inches per 12",
+  "facet.degreesPlaceholder": "Degrees",
+  "facet.degreesLabel": "Angle in degrees",
+  "facet.slopeFactor": "Slope factor: {factor}x",
+  "facet.area": "Roof area: {area} sq ft",
+  "facetType.gable": "Gable",
+  "facetType.hip": "Hip",
+  "facetType.shed": "Shed",
+  "facetType.flat": "Flat",
+  "pitch.flat": "Flat (0/12)",
+  "pitch.low": "Low (4/12)",
+  "pitch.medium": "Medium (8/12)",
+  "pitch.steep": "Steep (12/12)",
+
+  // Results
+  "results.title": "Cost Estimate",
+  "results.region": "Priced for {region}",
+  "results.materials": "Materials Cost",
+  "results.labor": "Labor Cost",
+  "results.addons": "Add-ons",
+  "results.unitCost": "{quantity} {unit} @ {cost}",
+  "results.totalRange": "Total Range:",
+  "results.midpoint": "Midpoint Total:",
+  "results.breakdown": "Cost Breakdown",
+  "results.takeoff": "Material Order List",
+  "results.takeoffHint":
+    "Edge lengths are estimated from the roof size. Use the roof size helper for measured quantities.",
+
+  "simulation.title": "Most Likely Range",
+  "simulation.loading": "Running simulation...",
+  "simulation.low": "Low (P10)",
+  "simulation.likely": "Most Likely (P50)",
+  "simulation.high": "High (P90)",
+  "simulation.jobs": "Simulated jobs",
+  "simulation.hint":
+    "Based on {iterations} simulated jobs with varying material prices, crew productivity, waste and add-on costs. 8 in 10 jobs like this land between P10 and P90.",
+
+  "comparison.title": "Compare Materials",
+  "comparison.description": "The same roof, job and add-ons priced with up to {max} materials.",
+  "comparison.loading": "Pricing materials...",
+  "comparison.material": "Material",
+  "comparison.low": "Low",
+  "comparison.mid": "Mid",
+  "comparison.high": "High",
+  "comparison.lifespan": "Lifespan",
+  "comparison.perYear": "Per Year",
+  "comparison.current": "Current estimate",
+  "comparison.years": "{min}-{max} yrs",
+  "comparison.note":
+    "Per year spreads the midpoint price over the middle of the typical lifespan, so longer-lasting materials can cost less over the life of the roof.",
+
+  // Homeowner wizard, in plain language rather than estimator terms
+  "wizard.step.property": "Property",
+  "wizard.step.size": "Roof size",
+  "wizard.step.material": "Material",
+  "wizard.step.job": "Job type",
+  "wizard.step.extras": "Extras",
+  "wizard.step.results": "Estimate",
+  "wizard.progress": "Step {current} of {total}: {title}",
+  "wizard.progressLabel": "Progress",
+  "wizard.propertyQuestion": "What kind of building is it?",
+  "wizard.sizeQuestion": "How big is the roof?",
+  "wizard.sizePlaceholder": "Square feet",
+  "wizard.sizeHint": "Roof area in square feet. It's usually a bit more than the home's floor area.",
+  "wizard.sizeHelper": "Not sure? Measure it section by section",
+  "wizard.shapeQuestion": "What shape is the roof?",
+  "wizard.materialQuestion": "What would you like the roof made of?",
+  "wizard.lifespan": "Lasts {min}-{max} years",
+  "wizard.jobQuestion": "What do you need done?",
+  "wizard.extrasTitle": "A few last details",
+  "wizard.tearoff": "Remove the old roof first",
+  "wizard.tearoffHint": "Recommended when the roof already has two layers or the deck may be damaged.",
+  "wizard.permits": "Include building permits",
+  "wizard.permitsHint": "Most cities require a permit for a new or replacement roof.",
+  "wizard.zipCode": "Property ZIP code",
+  "wizard.zipCodeHint": "Prices vary by area. Leave blank for Torrance pricing.",
+  "wizard.back": "Back",
+  "wizard.next": "Next",
+  "wizard.startOver": "Start Over",
+  "wizard.calculate": "See My Estimate",
+
+  "guide.roofingType.residential.title": "A home",
+  "guide.roofingType.residential.description": "Houses, townhomes, garages and other residential buildings.",
+  "guide.roofingType.commercial.title": "A business",
+  "guide.roofingType.commercial.description":
+    "Offices, shops, warehouses and apartment buildings, usually with flat roofs.",
+  "guide.complexity.simple.title": "Simple",
+  "guide.complexity.simple.description": "One level with a gentle slope and few corners.",
+  "guide.complexity.medium.title": "Average",
+  "guide.complexity.medium.description": "A typical house with a few peaks, valleys or a second story.",
+  "guide.complexity.complex.title": "Complex",
+  "guide.complexity.complex.description": "Steep, several levels, or lots of dormers, turrets and corners.",
+  "guide.jobType.new.title": "A new roof",
+  "guide.jobType.new.description": "Roofing a new building or an addition that has no roof yet.",
+  "guide.jobType.replacement.title": "Replace my roof",
+  "guide.jobType.replacement.description": "Put a whole new roof on in place of the one you have.",
+  "guide.jobType.repair.title": "A repair",
+  "guide.jobType.repair.description": "Fix leaks, missing shingles or damage on part of the roof.",
+  "guide.material.asphalt":
+    "The most common roof in America. Affordable, comes in many colors and is easy to repair.",
+  "guide.material.clay": "Clay or concrete tiles with the classic Spanish look. Very long-lasting, but heavy.",
+  "guide.material.metal": "Panels or standing seams. Lightweight, fire resistant and reflects summer heat.",
+  "guide.material.wood": "Natural cedar shakes with a rustic look. Needs more upkeep than other roofs.",
+  "guide.material.slate": "Natural stone that can last a century. The premium choice, and the heaviest.",
+  "guide.material.membrane":
+    "A single waterproof sheet for flat or nearly flat roofs, such as patios and additions.",
+  "guide.material.tpo": "A white sheet for flat roofs that reflects heat and keeps cooling costs down.",
+  "guide.material.pvc": "A tough white sheet that resists grease and chemicals, a good fit over restaurants.",
+  "guide.material.epdm": "Durable black rubber sheeting, a long-standing choice for flat roofs.",
+  "guide.material.modified": "Layered asphalt sheets sealed together. Stands up well to foot traffic.",
+  "guide.material.bur": "Alternating layers of tar and felt topped with gravel. Proven and sturdy.",
+
+  // Quote requests
+  "lead.button": "Get a Free Quote",
+  "lead.description": "We'll send your estimate to our team so we can follow up with a firm quote.",
+  "lead.name": "Name",
+  "lead.phone": "Phone",
+  "lead.email": "Email",
+  "lead.address": "Property Address",
+  "lead.contactTime": "Best Time to Contact",
+  "lead.submit": "Send Request",
+  "lead.sentTitle": "Request Sent",
+  "lead.sentDescription":
+    "Thanks, {name}. We have your estimate and will be in touch to schedule a free inspection.",
+  "lead.failed": "Request Failed",
+  "contactTime.anytime": "Any time",
+  "contactTime.morning": "Morning (8am - 12pm)",
+  "contactTime.afternoon": "Afternoon (12pm - 5pm)",
+  "contactTime.evening": "Evening (5pm - 8pm)",
+
+  // Share links
+  "shared.loading": "Loading estimate...",
+  "shared.expired": "This link has expired",
+  "shared.unavailable": "Estimate not available",
+  "shared.expiredHint": "Ask your estimator to send you a new link.",
+  "shared.unavailableHint": "The link may have been mistyped or is no longer shared.",
+  "shared.contactPrefix": "You can also",
+  "shared.contact": "contact {company}",
+  "shared.preparedFor": "Prepared for {name}",
+  "shared.summary": "{size} sq ft of {material}",
+  "shared.updated": "Updated {date}",
+  "shared.chosen": "You chose {tier}",
+  "shared.choose": "Choose Your Option",
+  "shared.chooseHint": "Select an option to see its full breakdown.",
+  "shared.accept": "Accept {tier}",
+  "shared.yourPrice": "Your Price ({percent}% off):",
+  "shared.expiry": "This link is available until {date}.",
+  "shared.thanks": "Thank You",
+  "shared.thanksDescription": "{company} will be in touch to schedule your project.",
+  "shared.notAccepted": "Not Accepted",
+
+  // Validation messages. The customer-facing schemas in shared/schema.ts use
+  // these keys as their messages.
+  "validation.roofSizePositive": "Roof size must be a positive number",
+  "validation.roofSizeMax": "Maximum roof size is {maxRoofSize} sq ft",
+  "validation.material": "Select a material",
+  "validation.zipCode": "Enter a 5-digit ZIP code",
+  "validation.tearoff": "Tear-off only applies to replacements",
+  "validation.compareMin": "Choose at least two materials to compare",
+  "validation.compareMax": "Compare up to {maxComparedMaterials} materials at a time",
+  "validation.compareUnique": "Each material can only be compared once",
+  "validation.name": "Name is required",
+  "validation.email": "Enter a valid email address",
+  "validation.contact": "Enter a phone number or email so we can reach you",
+  "validation.invalid": "Check this answer and try again",
+
+  // Server errors, sent as `code` next to the English message
+  "error.generic": "Something went wrong. Please try again.",
+  "error.noPriceBook": "Pricing isn't available right now. Please try again later.",
+  "error.priceUnavailable": "We couldn't price this roof with the options chosen.",
+  "error.linkInvalid": "This estimate link is not valid",
+  "error.linkExpired": "This estimate link has expired",
+  "error.alreadyAccepted": "This estimate has already been accepted",
+  "error.optionUnavailable": "That option isn't available on this estimate",
+
+  // Proposal PDF
+  "proposal.title": "Roofing Proposal",
+  "proposal.documentTitle": "Proposal: {title}",
+  "proposal.number": "Proposal {number}",
+  "proposal.serving": "Serving the {serviceArea}",
+  "proposal.preparedFor": "Prepared for",
+  "proposal.valuedCustomer": "Valued Customer",
+  "proposal.property": "Property",
+  "proposal.zipCode": "ZIP {zipCode}",
+  "proposal.scope": "Scope of Work",
+  "proposal.scope.new": "New installation of approximately {size} of {roofingType} roofing with {material}.",
+  "proposal.scope.replacement":
+    "Replacement of approximately {size} of {roofingType} roofing with {material}.",
+  "proposal.scope.repair": "Repair of approximately {size} of {roofingType} roofing using {material}.",
+  "proposal.scope.complexity": "Roof complexity assessed as {complexity}.",
+  "proposal.scope.tearoff": "Tear-off and disposal of the existing roofing.",
+  "proposal.scope.permits": "Building permits and inspections.",
+  "proposal.scope.installation":
+    "Installation of underlayment, flashing and edge metal to manufacturer specifications.",
+  "proposal.scope.cleanup": "Daily clean-up and a final magnetic sweep for nails.",
+  "proposal.roofingType.residential": "residential",
+  "proposal.roofingType.commercial": "commercial",
+  "proposal.complexity.simple": "simple",
+  "proposal.complexity.medium": "medium",
+  "proposal.complexity.complex": "complex",
+  "proposal.options": "Options",
+  "proposal.accepted": "{tier} (accepted)",
+  "proposal.pricing": "Pricing",
+  "proposal.materials": "Materials",
+  "proposal.labor": "Labor",
+  "proposal.addons": "Add-ons",
+  "proposal.totalRange": "Total Range",
+  "proposal.midpoint": "Midpoint Total",
+  "proposal.discount": "Discount ({percent}%)",
+  "proposal.price": "Proposal Price",
+  "proposal.priceBook": "Priced from the {label} price book.",
+  "proposal.disclaimer": "Disclaimer",
+  "proposal.firmQuote": "This proposal becomes a firm quote once {company} has inspected the property.",
+  "proposal.terms": "Terms",
+  "proposal.terms.validity":
+    "This proposal is valid for 30 days from the date above. Prices may be revised after a site inspection.",
+  "proposal.terms.deposit": "A 10% deposit is due at signing, with the balance due on completion of the work.",
+  "proposal.terms.changeOrders":
+    "Rotted decking, hidden structural damage and code upgrades found during tear-off are billed as a change order.",
+  "proposal.terms.warranty":
+    "Workmanship is warranted for 5 years from completion; materials carry the manufacturer's warranty.",
+  "proposal.terms.inclusions":
+    "Permits, disposal and clean-up are included only where listed in the line items above.",
+  "proposal.acceptance": "Acceptance",
+  "proposal.acceptanceText": "By signing below, the customer accepts this proposal and the terms above.",
+  "proposal.customerSignature": "Customer signature",
+  "proposal.representativeSignature": "Authorized representative",
+  "proposal.date": "Date",
+};
+
+export type MessageKey = keyof typeof en;
@@ -0,0 +1,413 @@
+import type { MessageKey } from "./en";
+
+export const es: Record<MessageKey, string> = {
+  // Calculator
+  "calculator.title": "Calculadora de Costos de Techado",
+  "calculator.subtitle": "Obtenga un estimado al instante para su proyecto de techo en {serviceArea}",
+  "calculator.mode": "Modo de la calculadora",
+  "calculator.modeWizard": "Paso a paso",
+  "calculator.modePro": "Modo profesional",
+  "calculator.projectDetails": "Detalles del Proyecto",
+  "calculator.roofingType": "Tipo de Techo",
+  "calculator.roofSize": "Tamaño del Techo (Pies Cuadrados)",
+  "calculator.roofSizePlaceholder": "Ingrese el tamaño del techo",
+  "calculator.roofSizeHint": "Máximo {max} pies²",
+  "calculator.zipCode": "Código Postal del Proyecto",
+  "calculator.zipCodePlaceholder": "p. ej. 90503",
+  "calculator.zipCodeHint": "Ajusta los costos de mano de obra y materiales a su zona",
+  "calculator.material": "Material del Techo",
+  "calculator.materialsLoading": "Cargando materiales...",
+  "calculator.materialPlaceholder": "Seleccione un material",
+  "calculator.materialOption": "{material} ({low}-{high}/pie²)",
+  "calculator.jobType": "Tipo de Trabajo",
+  "calculator.complexity": "Complejidad del Techo",
+  "calculator.addons": "Adicionales",
+  "calculator.tearoff": "Retiro del Techo Anterior (+$1-$2/pie²)",
+  "calculator.tearoffHint": "Solo para reemplazos completos",
+  "calculator.permits": "Permisos de Construcción (+$400-$600)",
+  "calculator.getEstimate": "Obtener Estimado",
+  "calculator.reset": "Reiniciar",
+  "calculator.downloadProposal": "Descargar Propuesta (PDF)",
+  "calculator.sizeHelperTitle": "¿Necesita Ayuda para Calcular el Tamaño del Techo?",
+  "calculator.estimateFailed": "No se Pudo Calcular el Estimado",
+  "calculator.missingInformation": "Falta Información",
+  "calculator.missingSection": "Ingrese el largo y el ancho de al menos una sección del techo",
+  "calculator.language": "Idioma",
+
+  "roofingType.residential": "Residencial",
+  "roofingType.commercial": "Comercial",
+  "jobType.new": "Instalación Nueva",
+  "jobType.replacement": "Reemplazo Completo",
+  "jobType.repair": "Reparación/Parcial",
+  "complexity.simple": "Sencillo/Poca Pendiente (+0%)",
+  "complexity.medium": "Intermedio/Estándar (+20%)",
+  "complexity.complex": "Complejo/Pendiente Pronunciada y Varios Niveles (+40%)",
+  "tier.good": "Bueno",
+  "tier.better": "Mejor",
+  "tier.best": "Superior",
+  "option.productLine": "Línea {line}",
+  "units.sqFt": "{value} pies²",
+
+  "disclaimer.label": "Aviso:",
+  "disclaimer.estimate":
+    "Este es un estimado basado en los promedios de 2025 para {region}. Los costos reales pueden variar según la inspección del sitio, las fluctuaciones del mercado y los requisitos específicos.",
+  "disclaimer.firmQuote": "Para una cotización firme, comuníquese con",
+
+  // Roof size helper
+  "sizeHelper.facetsHint":
+    "Mida cada sección del techo por separado, como cada ala de una casa en forma de L o cada nivel.",
+  "sizeHelper.addSection": "Agregar Sección del Techo",
+  "sizeHelper.overhang": "Alero (Pulgadas)",
+  "sizeHelper.overhangPlaceholder": "Ingrese el alero",
+  "sizeHelper.overhangHint": "Se aplica a cada borde expuesto de cada sección",
+  "sizeHelper.valleys": "Limahoyas",
+  "sizeHelper.valleysPlaceholder": "Número de limahoyas",
+  "sizeHelper.valleysHint":
+    "Esquinas interiores donde se unen dos secciones del techo. Más cortes significan más desperdicio.",
+  "sizeHelper.calculate": "Calcular Tamaño del Techo",
+  "sizeHelper.measuredArea": "Área Medida del Techo:",
+  "sizeHelper.waste": "Desperdicio ({percent}%):",
+  "sizeHelper.estimatedSize": "Tamaño Estimado del Techo:",
+  "sizeHelper.wasteHint":
+    "Seleccione un material y vuelva a calcular para usar el desperdicio propio de ese material.",
+
+  "facet.title": "Sección {number}",
+  "facet.remove": "Quitar la sección {number}",
+  "facet.shape": "Forma",
+  "facet.length": "Largo (pies)",
+  "facet.width": "Ancho (pies)",
+  "facet.pitch": "Pendiente",
+  "facet.pitchCustom": "Personalizada",
+  "facet.risePlaceholder": "Elevación / 12",
+  "facet.riseLabel": "Elevación en pulgadas por cada 12",
+  "facet.degreesPlaceholder": "Grados",
+  "facet.degreesLabel": "Ángulo en grados",
+  "facet.slopeFactor": "Factor de pendiente: {factor}x",
+  "facet.area": "Área del techo: {area} pies²",
+  "facetType.gable": "A dos aguas",
+  "facetType.hip": "A cuatro aguas",
+  "facetType.shed": "A un agua",
+  "facetType.flat": "Plano",
+  "pitch.flat": "Plana (0/12)",
+  "pitch.low": "Baja (4/12)",
+  "pitch.medium": "Media (8/12)",
+  "pitch.steep": "Pronunciada (12/12)",
+
+  // Results
+  "results.title": "Estimado de Costos",
+  "results.region": "Precios para {region}",
+  "results.materials": "Costo de Materiales",
+  "results.labor": "Costo de Mano de Obra",
+  "results.addons": "Adicionales",
+  "results.unitCost": "{quantity} {unit} a {cost}",
+  "results.totalRange": "Rango Total:",
+  "results.midpoint": "Total Intermedio:",
+  "results.breakdown": "Desglose de Costos",
+  "results.takeoff": "Lista de Pedido de Materiales",
+  "results.takeoffHint":
+    "Las longitudes de los bordes se calculan a partir del tamaño del techo. Use la ayuda para medir el techo y obtener cantidades medidas.",
+
+  "simulation.title": "Rango Más Probable",
+  "simulation.loading": "Ejecutando la simulación...",
+  "simulation.low": "Bajo (P10)",
+  "simulation.likely": "Más Probable (P50)",
+  "simulation.high": "Alto (P90)",
+  "simulation.jobs": "Trabajos simulados",
+  "simulation.hint":
+    "Basado en {iterations} trabajos simulados con variaciones en el precio de los materiales, la productividad del equipo, el desperdicio y el costo de los adicionales. 8 de cada 10 trabajos como este quedan entre P10 y P90.",
+
+  "comparison.title": "Comparar Materiales",
+  "comparison.description": "El mismo techo, trabajo y adicionales con precios de hasta {max} materiales.",
+  "comparison.loading": "Calculando precios de materiales...",
+  "comparison.material": "Material",
+  "comparison.low": "Bajo",
+  "comparison.mid": "Medio",
+  "comparison.high": "Alto",
+  "comparison.lifespan": "Vida Útil",
+  "comparison.perYear": "Por Año",
+  "comparison.current": "Estimado actual",
+  "comparison.years": "{min}-{max} años",
+  "comparison.note":
+    "El costo por año reparte el precio intermedio sobre la mitad de la vida útil típica, así que los materiales más duraderos pueden costar menos durante la vida del techo.",
+
+  // Homeowner wizard
+  "wizard.step.property": "Propiedad",
+  "wizard.step.size": "Tamaño",
+  "wizard.step.material": "Material",
+  "wizard.step.job": "Trabajo",
+  "wizard.step.extras": "Detalles",
+  "wizard.step.results": "Estimado",
+  "wizard.progress": "Paso {current} de {total}: {title}",
+  "wizard.progressLabel": "Progreso",
+  "wizard.propertyQuestion": "¿Qué tipo de edificio es?",
+  "wizard.sizeQuestion": "¿Qué tamaño tiene el techo?",
+  "wizard.sizePlaceholder": "Pies cuadrados",
+  "wizard.sizeHint":
+    "Área del techo en pies cuadrados. Suele ser un poco mayor que el área del piso de la casa.",
+  "wizard.sizeHelper": "¿No está seguro? Mídalo sección por sección",
+  "wizard.shapeQuestion": "¿Qué forma tiene el techo?",
+  "wizard.materialQuestion": "¿De qué material le gustaría el techo?",
+  "wizard.lifespan": "Dura de {min} a {max} años",
+  "wizard.jobQuestion": "¿Qué trabajo necesita?",
+  "wizard.extrasTitle": "Unos últimos detalles",
+  "wizard.tearoff": "Retirar primero el techo anterior",
+  "wizard.tearoffHint": "Recomendado si el techo ya tiene dos capas o la base puede estar dañada.",
+  "wizard.permits": "Incluir permisos de construcción",
+  "wizard.permitsHint": "La mayoría de las ciudades exigen un permiso para un techo nuevo o de reemplazo.",
+  "wizard.zipCode": "Código postal de la propiedad",
+  "wizard.zipCodeHint": "Los precios varían según la zona. Déjelo en blanco para usar los precios de Torrance.",
+  "wizard.back": "Atrás",
+  "wizard.next": "Siguiente",
+  "wizard.startOver": "Empezar de Nuevo",
+  "wizard.calculate": "Ver Mi Estimado",
+
+  "guide.roofingType.residential.title": "Una vivienda",
+  "guide.roofingType.residential.description": "Casas, casas adosadas, garajes y otros edificios residenciales.",
+  "guide.roofingType.commercial.title": "Un negocio",
+  "guide.roofingType.commercial.description":
+    "Oficinas, tiendas, bodegas y edificios de apartamentos, normalmente con techo plano.",
+  "guide.complexity.simple.title": "Sencillo",
+  "guide.complexity.simple.description": "Un solo nivel con poca pendiente y pocas esquinas.",
+  "guide.complexity.medium.title": "Normal",
+  "guide.complexity.medium.description": "Una casa típica con algunos picos, limahoyas o un segundo piso.",
+  "guide.complexity.complex.title": "Complejo",
+  "guide.complexity.complex.description": "Inclinado, con varios niveles o con muchas buhardillas, torres y esquinas.",
+  "guide.jobType.new.title": "Un techo nuevo",
+  "guide.jobType.new.description": "Techar un edificio nuevo o una ampliación que todavía no tiene techo.",
+  "guide.jobType.replacement.title": "Reemplazar mi techo",
+  "guide.jobType.replacement.description": "Poner un techo completamente nuevo en lugar del que tiene.",
+  "guide.jobType.repair.title": "Una reparación",
+  "guide.jobType.repair.description": "Arreglar goteras, tejas faltantes o daños en una parte del techo.",
+  "guide.material.asphalt":
+    "El techo más común en Estados Unidos. Económico, viene en muchos colores y es fácil de reparar.",
+  "guide.material.clay":
+    "Tejas de barro o concreto con el clásico estilo español. Muy duraderas, pero pesadas.",
+  "guide.material.metal": "Paneles o juntas alzadas. Ligero, resistente al fuego y refleja el calor del verano.",
+  "guide.material.wood": "Tejas de cedro natural con aspecto rústico. Requiere más mantenimiento que otros techos.",
+  "guide.material.slate": "Piedra natural que puede durar un siglo. La opción de primera, y la más pesada.",
+  "guide.material.membrane":
+    "Una sola lámina impermeable para techos planos o casi planos, como patios y ampliaciones.",
+  "guide.material.tpo": "Una lámina blanca para techos planos que refleja el calor y reduce el costo del aire acondicionado.",
+  "guide.material.pvc":
+    "Una lámina blanca resistente a la grasa y los químicos, ideal sobre restaurantes.",
+  "guide.material.epdm": "Lámina de caucho negro duradera, una opción de siempre para techos planos.",
+  "guide.material.modified": "Láminas asfálticas en capas selladas entre sí. Resiste bien el tránsito a pie.",
+  "guide.material.bur": "Capas alternas de alquitrán y fieltro cubiertas con grava. Probado y resistente.",
+
+  // Quote requests
+  "lead.button": "Solicitar Cotización Gratis",
+  "lead.description":
+    "Enviaremos su estimado a nuestro equipo para darle seguimiento con una cotización firme.",
+  "lead.name": "Nombre",
+  "lead.phone": "Teléfono",
+  "lead.email": "Correo electrónico",
+  "lead.address": "Dirección de la Propiedad",
+  "lead.contactTime": "Mejor Horario para Contactarle",
+  "lead.submit": "Enviar Solicitud",
+  "lead.sentTitle": "Solicitud Enviada",
+  "lead.sentDescription":
+    "Gracias, {name}. Recibimos su estimado y nos pondremos en contacto para programar una inspección gratuita.",
+  "lead.failed": "No se Pudo Enviar la Solicitud",
+  "contactTime.anytime": "Cualquier hora",
+  "contactTime.morning": "Mañana (8am - 12pm)",
+  "contactTime.afternoon": "Tarde (12pm - 5pm)",
+  "contactTime.evening": "Noche (5pm - 8pm)",
+
+  // Share links
+  "shared.loading": "Cargando el estimado...",
+  "shared.expired": "Este enlace ha vencido",
+  "shared.unavailable": "Estimado no disponible",
+  "shared.expiredHint": "Pida a su estimador que le envíe un enlace nuevo.",
+  "shared.unavailableHint": "Es posible que el enlace esté mal escrito o que ya no se comparta.",
+  "shared.contactPrefix": "También puede",
+  "shared.contact": "comunicarse con {company}",
+  "shared.preparedFor": "Preparado para {name}",
+  "shared.summary": "{size} pies² de {material}",
+  "shared.updated": "Actualizado el {date}",
+  "shared.chosen": "Usted eligió {tier}",
+  "shared.choose": "Elija Su Opción",
+  "shared.chooseHint": "Seleccione una opción para ver su desglose completo.",
+  "shared.accept": "Aceptar {tier}",
+  "shared.yourPrice": "Su Precio ({percent}% de descuento):",
+  "shared.expiry": "Este enlace está disponible hasta el {date}.",
+  "shared.thanks": "Gracias",
+  "shared.thanksDescription": "{company} se comunicará con usted para programar su proyecto.",
+  "shared.notAccepted": "No se Aceptó",
+
+  // Validation messages
+  "validation.roofSizePositive": "El tamaño del techo debe ser un número positivo",
+  "validation.roofSizeMax": "El tamaño máximo del techo es de {maxRoofSize} pies²",
+  "validation.material": "Seleccione un material",
+  "validation.zipCode": "Ingrese un código postal de 5 dígitos",
+  "validation.tearoff": "El retiro solo aplica a los reemplazos",
+  "validation.compareMin": "Elija al menos dos materiales para comparar",
+  "validation.compareMax": "Compare hasta {maxComparedMaterials} materiales a la vez",
+  "validation.compareUnique": "Cada material solo se puede comparar una vez",
+  "validation.name": "El nombre es obligatorio",
+  "validation.email": "Ingrese un correo electrónico válido",
+  "validation.contact": "Ingrese un teléfono o correo electrónico para poder comunicarnos con usted",
+  "validation.invalid": "Revise esta respuesta e inténtelo de nuevo",
+
+  // Server errors
+  "error.generic": "Algo salió mal. Inténtelo de nuevo.",
+  "error.noPriceBook": "Los precios no están disponibles en este momento. Inténtelo más tarde.",
+  "error.priceUnavailable": "No pudimos calcular el precio de este techo con las opciones elegidas.",
+  "error.linkInvalid": "Este enlace al estimado no es válido",
+  "error.linkExpired": "Este enlace al estimado ha vencido",
+  "error.alreadyAccepted": "Este estimado ya fue aceptado",
+  "error.optionUnavailable": "Esa opción no está disponible en este estimado",
+
+  // Proposal PDF
+  "proposal.title": "Propuesta de Techado",
+  "proposal.documentTitle": "Propuesta: {title}",
+  "proposal.number": "Propuesta {number}",
+  "proposal.serving": "Servimos en {serviceArea}",
+  "proposal.preparedFor": "Preparada para",
+  "proposal.valuedCustomer": "Estimado Cliente",
+  "proposal.property": "Propiedad",
+  "proposal.zipCode": "Código postal {zipCode}",
+  "proposal.scope": "Alcance del Trabajo",
+  "proposal.scope.new": "Instalación nueva de aproximadamente {size} de techo {roofingType} con {material}.",
+  "proposal.scope.replacement": "Reemplazo de aproximadamente {size} de techo {roofingType} con {material}.",
+  "proposal.scope.repair": "Reparación de aproximadamente {size} de techo {roofingType} usando {material}.",
+  "proposal.scope.complexity": "Complejidad del techo evaluada como {complexity}.",
+  "proposal.scope.tearoff": "Retiro y desecho del techo existente.",
+  "proposal.scope.permits": "Permisos de construcción e inspecciones.",
+  "proposal.scope.installation":
+    "Instalación de membrana base, tapajuntas y bordes metálicos según las especificaciones del fabricante.",
+  "proposal.scope.cleanup": "Limpieza diaria y un barrido magnético final para recoger clavos.",
+  "proposal.roofingType.residential": "residencial",
+  "proposal.roofingType.commercial": "comercial",
+  "proposal.complexity.simple": "sencilla",
+  "proposal.complexity.medium": "intermedia",
+  "proposal.complexity.complex": "compleja",
+  "proposal.options": "Opciones",
+  "proposal.accepted": "{tier} (aceptada)",
+  "proposal.pricing": "Precios",
+  "proposal.materials": "Materiales",
+  "proposal.labor": "Mano de obra",
+  "proposal.addons": "Adicionales",
+  "proposal.totalRange": "Rango Total",
+  "proposal.midpoint": "Total Intermedio",
+  "proposal.discount": "Descuento ({percent}%)",
+  "proposal.price": "Precio de la Propuesta",
+  "proposal.priceBook": "Precios según la lista de precios {label}.",
+  "proposal.disclaimer": "Aviso",
+  "proposal.firmQuote":
+    "Esta propuesta se convierte en una cotización firme una vez que {company} haya inspeccionado la propiedad.",
+  "proposal.terms": "Términos",
+  "proposal.terms.validity":
+    "Esta propuesta es válida por 30 días a partir de la fecha indicada. Los precios pueden ajustarse después de una inspección del sitio.",
+  "proposal.terms.deposit":
+    "Se requiere un depósito del 10% al firmar, y el saldo se paga al terminar el trabajo.",
+  "proposal.terms.changeOrders":
+    "La madera podrida, los daños estructurales ocultos y las mejoras exigidas por el código que se descubran durante el retiro se facturan como una orden de cambio.",
+  "proposal.terms.warranty":
+    "La mano de obra tiene garantía de 5 años a partir de la terminación; los materiales tienen la garantía del fabricante.",
+  "proposal.terms.inclusions":
+    "Los permisos, el desecho y la limpieza se incluyen solo cuando aparecen en las partidas anteriores.",
+  "proposal.acceptance": "Aceptación",
+  "proposal.acceptanceText": "Al firmar a continuación, el cliente acepta esta propuesta y los términos anteriores.",
+  "proposal.customerSignature": "Firma del cliente",
+  "proposal.representativeSignature": "Representante autorizado",
+  "proposal.date": "Fecha",
+};
+
+// English that reaches the page as data rather than from the catalog: price
+// book and option labels, line items saved with an estimate, units and the
+// shared schema's validation messages. Anything missing is shown as is.
+export const esTerms: Record<string, string> = {
+  "South Bay and Orange County": "el South Bay y el condado de Orange",
+
+  // Materials
+  "Asphalt Shingles": "Tejas de Asfalto",
+  "Clay/Concrete Tile": "Teja de Barro/Concreto",
+  Metal: "Metal",
+  "Wood Shake/Shingles": "Tejas de Madera",
+  Slate: "Pizarra",
+  "Flat Membrane (EPDM/TPO)": "Membrana para Techo Plano (EPDM/TPO)",
+  "TPO Membrane": "Membrana TPO",
+  "PVC Membrane": "Membrana de PVC",
+  "EPDM Rubber": "Caucho EPDM",
+  "Modified Bitumen": "Asfalto Modificado",
+  "Built-Up Roofing (BUR)": "Techo Multicapa (BUR)",
+
+  // Product lines, underlayment and warranties
+  Standard: "Estándar",
+  Premium: "Premium",
+  Designer: "de Diseño",
+  "premium line": "línea premium",
+  "designer line": "línea de diseño",
+  "Synthetic underlayment": "Membrana base sintética",
+  "Premium synthetic underlayment": "Membrana base sintética premium",
+  "Ice & water shield, full deck": "Barrera contra hielo y agua, toda la superficie",
+  "Manufacturer standard": "Estándar del fabricante",
+  "Enhanced system warranty": "Garantía mejorada del sistema",
+  "Lifetime system warranty": "Garantía de por vida del sistema",
+
+  // Line items
+  "Field shingles": "Tejas del campo",
+  "Ridge cap": "Caballete",
+  "Drip edge": "Gotero",
+  "Field tile": "Teja del campo",
+  "Ridge & hip trim tile": "Teja de cumbrera y limatesa",
+  "Metal panels": "Paneles metálicos",
+  "Wood shakes": "Tejas de madera",
+  "Single-ply membrane": "Membrana de una capa",
+  "Cover board & fasteners": "Tablero de cubierta y sujetadores",
+  "Edge metal": "Borde metálico",
+  "TPO membrane": "Membrana TPO",
+  "PVC membrane": "Membrana de PVC",
+  "EPDM membrane": "Membrana EPDM",
+  "Modified bitumen plies": "Capas de asfalto modificado",
+  "Built-up plies": "Capas multicapa",
+  "Installation labor": "Mano de obra de instalación",
+  "Tear-off & disposal": "Retiro y desecho",
+  "Building permits": "Permisos de construcción",
+
+  // Material order list
+  "Roofing squares": "Cuadros de techo",
+  "Synthetic underlayment (10 sq rolls)": "Membrana base sintética (rollos de 10 cuadros)",
+  "Drip edge (10 ft pieces)": "Gotero (piezas de 10 pies)",
+  "Cover board (4x8 ft sheets)": "Tablero de cubierta (hojas de 4x8 pies)",
+  "Edge metal (10 ft pieces)": "Borde metálico (piezas de 10 pies)",
+  "Membrane rolls (10x100 ft)": "Rollos de membrana (10x100 pies)",
+  "TPO rolls (10x100 ft)": "Rollos de TPO (10x100 pies)",
+  "PVC rolls (10x100 ft)": "Rollos de PVC (10x100 pies)",
+  "Fasteners & plates (500/bucket)": "Sujetadores y placas (500/cubeta)",
+  "Shingle bundles": "Paquetes de tejas",
+  "Starter strip (105 LF bundles)": "Tira de arranque (paquetes de 105 pies lineales)",
+  "Coil nails (7,200/box)": "Clavos en rollo (7,200/caja)",
+  "Field tiles": "Tejas del campo",
+  "Ridge & hip trim tiles": "Tejas de cumbrera y limatesa",
+  "Tile fasteners (lb)": "Sujetadores para teja (lb)",
+  "Metal panels (3x12 ft)": "Paneles metálicos (3x12 pies)",
+  "Panel screws (250/bag)": "Tornillos para panel (250/bolsa)",
+  "Shake bundles": "Paquetes de tejas de madera",
+  "Shake nails (5 lb boxes)": "Clavos para tejas de madera (cajas de 5 lb)",
+  Slates: "Pizarras",
+  "Copper slating nails (lb)": "Clavos de cobre para pizarra (lb)",
+  "EPDM sheets (10x50 ft)": "Láminas EPDM (10x50 pies)",
+  "Bonding adhesive (5 gal pails)": "Adhesivo de unión (cubetas de 5 gal)",
+  "Base sheet rolls (1 sq)": "Rollos de lámina base (1 cuadro)",
+  "Cap sheet rolls (1 sq)": "Rollos de lámina de acabado (1 cuadro)",
+  "Ply felt rolls (4 sq)": "Rollos de fieltro (4 cuadros)",
+  "Roofing asphalt (100 lb kegs)": "Asfalto para techos (barriles de 100 lb)",
+  "Gravel surfacing": "Acabado de grava",
+
+  // Units
+  sq: "cuadros",
+  LF: "pies lin.",
+  ea: "c/u",
+  rolls: "rollos",
+  pieces: "piezas",
+  sheets: "hojas",
+  buckets: "cubetas",
+  bundles: "paquetes",
+  boxes: "cajas",
+  panels: "paneles",
+  bags: "bolsas",
+  pails: "cubetas",
+  kegs: "barriles",
+  tons: "toneladas",
+};
@@ -0,0 +1,111 @@
+import type { MaterialOption } from "../roofing";
+import { en, type MessageKey } from "./en";
+import { es, esTerms } from "./es";
+
+export type { MessageKey };
+
+export const LOCALES = ["en", "es"] as const;
+
+export type Locale = (typeof LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = "en";
+
+// Shown in the language switcher, each in its own language
+export const localeNames: Record<Locale, string> = {
+  en: "English",
+  es: "Español",
+};
+
+const messages: Record<Locale, Record<MessageKey, string>> = { en, es };
+
+const terms: Record<Locale, Record<string, string>> = { en: {}, es: esTerms };
+
+// Prices are always in dollars, so both languages use US number formatting
+const intlLocales: Record<Locale, string> = {
+  en: "en-US",
+  es: "es-US",
+};
+
+// For keys that arrive as data, such as schema messages and server error codes
+export function isMessageKey(value: unknown): value is MessageKey {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(en, value);
+}
+
+export function isLocale(value: unknown): value is Locale {
+  return LOCALES.includes(value as Locale);
+}
+
+// Picks a supported locale from a language tag such as "es-MX", if there is one
+export function matchLocale(tag: string): Locale | undefined {
+  const language = tag.toLowerCase().split("-")[0];
+  return isLocale(language) ? language : undefined;
+}
+
+export function formatNumber(value: number, locale: Locale = DEFAULT_LOCALE, options?: Intl.NumberFormatOptions): string {
+  return new Intl.NumberFormat(intlLocales[locale], options).format(value);
+}
+
+// Whole dollars unless options ask for cents, e.g. { maximumFractionDigits: 2 }
+export function formatCurrency(
+  value: number,
+  locale: Locale = DEFAULT_LOCALE,
+  options?: Intl.NumberFormatOptions,
+): string {
+  return formatNumber(value, locale, {
+    style: "currency",
+    currency: "USD",
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+    ...options,
+  });
+}
+
+export function formatDate(
+  date: Date | string,
+  locale: Locale = DEFAULT_LOCALE,
+  dateStyle: Intl.DateTimeFormatOptions["dateStyle"] = "long",
+): string {
+  return new Intl.DateTimeFormat(intlLocales[locale], { dateStyle }).format(new Date(date));
+}
+
+// Fills {name} placeholders; numbers are formatted for the locale
+export function translate(
+  locale: Locale,
+  key: MessageKey,
+  params: Record<string, string | number> = {},
+): string {
+  return messages[locale][key].replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = params[name];
+    if (value === undefined) {
+      return placeholder;
+    }
+    return typeof value === "number" ? formatNumber(value, locale) : value;
+  });
+}
+
+// A material with its installed price range per sq ft, as listed in the calculator
+export function formatMaterialOption(locale: Locale, { name, costRange: [low, high] }: MaterialOption): string {
+  const cost = (value: number) => formatCurrency(value, locale, { maximumFractionDigits: 2 });
+  return translate(locale, "calculator.materialOption", {
+    material: translateTerm(locale, name),
+    low: cost(low),
+    high: cost(high),
+  });
+}
+
+// Translates English that arrives as data, such as a material label or a saved
+// line item. Composed descriptions like "Field shingles, premium line" are
+// translated part by part; anything unknown is returned unchanged.
+export function translateTerm(locale: Locale, text: string): string {
+  const localized = terms[locale];
+  if (localized[text]) {
+    return localized[text];
+  }
+  if (text.includes(", ")) {
+    return text
+      .split(", ")
+      .map((part) => localized[part] ?? part)
+      .join(", ");
+  }
+  return text;
+}
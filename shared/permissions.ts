@@ -0,0 +1,27 @@
+import type { UserRole } from './schema';
+
+export type Permission =
+  | 'estimates:edit'
+  | 'discounts:approve'
+  | 'reports:view'
+  | 'pricebook:edit'
+  | 'users:manage';
+
+export const roleLabels: Record<UserRole, string> = {
+  homeowner: 'Homeowner',
+  estimator: 'Estimator',
+  sales_manager: 'Sales Manager',
+  admin: 'Admin'
+};
+
+// Shared by the server middleware and the client route guards so both agree
+export const rolePermissions: Record<UserRole, Permission[]> = {
+  homeowner: [],
+  estimator: ['estimates:edit'],
+  sales_manager: ['estimates:edit', 'discounts:approve', 'reports:view'],
+  admin: ['estimates:edit', 'discounts:approve', 'reports:view', 'pricebook:edit', 'users:manage']
+};
+
+export function hasPermission(user: { role: UserRole } | null | undefined, permission: Permission): boolean {
+  return !!user && rolePermissions[user.role].includes(permission);
+}
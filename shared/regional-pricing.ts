@@ -0,0 +1,52 @@
+import { CostIndex } from './roofing';
+
+export interface RegionalCostIndex extends CostIndex {
+  zipCode: string;
+}
+
+// The price book is based on Torrance, CA; other areas scale from it
+export const BASE_COST_INDEX: CostIndex = {
+  region: 'Torrance, CA',
+  laborMultiplier: 1,
+  materialMultiplier: 1
+};
+
+const serviceAreas: { city: string; zipCodes: string[]; laborMultiplier: number; materialMultiplier: number }[] = [
+  // South Bay
+  { city: 'Torrance', zipCodes: ['90501', '90502', '90503', '90504', '90505'], laborMultiplier: 1, materialMultiplier: 1 },
+  { city: 'Redondo Beach', zipCodes: ['90277', '90278'], laborMultiplier: 1.05, materialMultiplier: 1 },
+  { city: 'Hermosa Beach', zipCodes: ['90254'], laborMultiplier: 1.08, materialMultiplier: 1.01 },
+  { city: 'Manhattan Beach', zipCodes: ['90266'], laborMultiplier: 1.1, materialMultiplier: 1.02 },
+  { city: 'El Segundo', zipCodes: ['90245'], laborMultiplier: 1.04, materialMultiplier: 1 },
+  { city: 'Palos Verdes Estates', zipCodes: ['90274'], laborMultiplier: 1.12, materialMultiplier: 1.03 },
+  { city: 'Rancho Palos Verdes', zipCodes: ['90275'], laborMultiplier: 1.1, materialMultiplier: 1.02 },
+  { city: 'Lomita', zipCodes: ['90717'], laborMultiplier: 0.98, materialMultiplier: 1 },
+  { city: 'Harbor City', zipCodes: ['90710'], laborMultiplier: 0.98, materialMultiplier: 1 },
+  { city: 'San Pedro', zipCodes: ['90731', '90732'], laborMultiplier: 1, materialMultiplier: 1 },
+  { city: 'Carson', zipCodes: ['90745', '90746'], laborMultiplier: 0.97, materialMultiplier: 1 },
+  { city: 'Gardena', zipCodes: ['90247', '90248', '90249'], laborMultiplier: 0.97, materialMultiplier: 1 },
+  { city: 'Lawndale', zipCodes: ['90260'], laborMultiplier: 0.97, materialMultiplier: 1 },
+  // Orange County
+  { city: 'Seal Beach', zipCodes: ['90740'], laborMultiplier: 1.06, materialMultiplier: 1.02 },
+  { city: 'Los Alamitos', zipCodes: ['90720'], laborMultiplier: 1.04, materialMultiplier: 1.01 },
+  { city: 'Huntington Beach', zipCodes: ['92646', '92647', '92648', '92649'], laborMultiplier: 1.08, materialMultiplier: 1.02 },
+  { city: 'Fountain Valley', zipCodes: ['92708'], laborMultiplier: 1.05, materialMultiplier: 1.02 },
+  { city: 'Westminster', zipCodes: ['92683'], laborMultiplier: 1.03, materialMultiplier: 1.01 },
+  { city: 'Costa Mesa', zipCodes: ['92626', '92627'], laborMultiplier: 1.07, materialMultiplier: 1.02 },
+  { city: 'Newport Beach', zipCodes: ['92660', '92661', '92662', '92663'], laborMultiplier: 1.15, materialMultiplier: 1.04 },
+  { city: 'Irvine', zipCodes: ['92602', '92603', '92604', '92606', '92612', '92614', '92618', '92620'], laborMultiplier: 1.1, materialMultiplier: 1.03 },
+  { city: 'Santa Ana', zipCodes: ['92701', '92703', '92704', '92705', '92706', '92707'], laborMultiplier: 1.02, materialMultiplier: 1.01 },
+  { city: 'Anaheim', zipCodes: ['92801', '92802', '92804', '92805', '92806', '92807'], laborMultiplier: 1.03, materialMultiplier: 1.01 }
+];
+
+// Built-in cost indexes, used to seed storage
+export function defaultCostIndexes(): RegionalCostIndex[] {
+  return serviceAreas.flatMap(({ city, zipCodes, laborMultiplier, materialMultiplier }) =>
+    zipCodes.map(zipCode => ({
+      zipCode,
+      region: `${city}, CA`,
+      laborMultiplier,
+      materialMultiplier
+    }))
+  );
+}
@@ -0,0 +1,539 @@
+import {
+  MaterialPricing,
+  MaterialOption,
+  PriceBookItem,
+  UnitRate,
+  PriceSet,
+  EstimateDelta,
+  CostIndex,
+  CostBreakdown,
+  CalculatorFormData,
+  RoofingType,
+  MaterialType,
+  RoofSizeHelperData,
+  PitchType,
+  RoofFacet,
+  FacetMeasurement,
+  RoofMeasurement,
+  RoofSizeEstimate,
+  WasteOptions,
+  ComplexityType,
+  LineItem,
+  LineItemCategory,
+  MaterialComparisonRow,
+  ProductLine,
+  SystemOption,
+  UnderlaymentType,
+  UnitRateInfo,
+  UnitRateItem,
+  UnitRates,
+  WarrantyType
+} from './roofing';
+import { BASE_COST_INDEX } from './regional-pricing';
+import { calculateTakeoff, edgeFeet, estimateEdges, ridgeFeet, RoofQuantities, squares } from './roofing-takeoff';
+
+// Material pricing data for 2025 Torrance, CA: the field material and the
+// labor to install it, per sq ft
+export const materialPricing: Record<RoofingType, MaterialPricing> = {
+  residential: {
+    asphalt: { material: [2.25, 4.5], labor: [2, 4] },
+    clay: { material: [5, 11.25], labor: [4.4, 10] },
+    metal: { material: [3.15, 9], labor: [2.8, 8] },
+    wood: { material: [3.6, 6.75], labor: [3.2, 6] },
+    slate: { material: [6.75, 18], labor: [6, 16] },
+    membrane: { material: [3.2, 5.5], labor: [2.8, 4.8] }
+  },
+  commercial: {
+    tpo: { material: [1.85, 3.7], labor: [1.6, 3.2] },
+    pvc: { material: [2.3, 4.15], labor: [2, 3.6] },
+    epdm: { material: [1.85, 4.15], labor: [1.6, 3.6] },
+    modified: { material: [2.05, 4.15], labor: [1.8, 3.6] },
+    bur: { material: [2.55, 4.6], labor: [2.2, 4] },
+    metal: { material: [3.6, 6.75], labor: [3.2, 6] },
+    asphalt: { material: [3.15, 4.5], labor: [2.8, 4] }
+  }
+};
+
+export const unitRateItems: Record<UnitRateItem, UnitRateInfo> = {
+  underlayment: { label: 'Synthetic underlayment', unit: 'sq' },
+  drip_edge: { label: 'Drip edge', unit: 'LF' },
+  ridge_cap: { label: 'Ridge cap', unit: 'LF' },
+  ridge_tile: { label: 'Ridge & hip trim tile', unit: 'LF' },
+  cover_board: { label: 'Cover board & fasteners', unit: 'sq' },
+  edge_metal: { label: 'Edge metal', unit: 'LF' },
+  tearoff: { label: 'Tear-off & disposal', unit: 'sq' },
+  permits: { label: 'Building permits', unit: 'ea' }
+};
+
+export const defaultUnitRates: UnitRates = {
+  underlayment: [40, 65],
+  drip_edge: [2.5, 4.5],
+  ridge_cap: [8, 16],
+  ridge_tile: [15, 30],
+  cover_board: [50, 85],
+  edge_metal: [3, 6],
+  tearoff: [100, 200],
+  permits: [400, 600]
+};
+
+export const materialLabels: Record<RoofingType, Record<string, string>> = {
+  residential: {
+    asphalt: 'Asphalt Shingles',
+    clay: 'Clay/Concrete Tile',
+    metal: 'Metal',
+    wood: 'Wood Shake/Shingles',
+    slate: 'Slate',
+    membrane: 'Flat Membrane (EPDM/TPO)'
+  },
+  commercial: {
+    tpo: 'TPO Membrane',
+    pvc: 'PVC Membrane',
+    epdm: 'EPDM Rubber',
+    modified: 'Modified Bitumen',
+    bur: 'Built-Up Roofing (BUR)',
+    metal: 'Metal',
+    asphalt: 'Asphalt Shingles'
+  }
+};
+
+// Typical service life in years with normal maintenance, low to high
+export const materialLifespans: Record<MaterialType, [number, number]> = {
+  asphalt: [20, 30],
+  clay: [50, 100],
+  metal: [40, 70],
+  wood: [25, 40],
+  slate: [75, 150],
+  membrane: [20, 30],
+  tpo: [20, 30],
+  pvc: [20, 30],
+  epdm: [25, 35],
+  modified: [15, 25],
+  bur: [20, 30]
+};
+
+// Product lines scale the field material, e.g. architectural vs. designer shingles
+export const productLineOptions: Record<ProductLine, SystemOption> = {
+  standard: { label: 'Standard', multiplier: 1 },
+  premium: { label: 'Premium', multiplier: 1.2 },
+  designer: { label: 'Designer', multiplier: 1.45 }
+};
+
+// Low-slope systems are built on a cover board instead, so only steep-slope
+// materials have an underlayment line to upgrade
+export const underlaymentOptions: Record<UnderlaymentType, SystemOption> = {
+  standard: { label: 'Synthetic underlayment', multiplier: 1 },
+  premium: { label: 'Premium synthetic underlayment', multiplier: 1.6 },
+  ice_and_water: { label: 'Ice & water shield, full deck', multiplier: 2.5 }
+};
+
+// Extended warranties are priced as a share of the materials and labor
+export const warrantyOptions: Record<WarrantyType, SystemOption> = {
+  standard: { label: 'Manufacturer standard', multiplier: 0 },
+  enhanced: { label: 'Enhanced system warranty', multiplier: 0.03 },
+  lifetime: { label: 'Lifetime system warranty', multiplier: 0.06 }
+};
+
+// Built-in prices, used to seed the price book
+export function defaultPriceBook(): PriceBookItem[] {
+  return (Object.keys(materialPricing) as RoofingType[]).flatMap(roofingType =>
+    Object.entries(materialPricing[roofingType]).map(([material, { material: [lowCost, highCost], labor }]) => ({
+      roofingType,
+      material: material as MaterialType,
+      label: materialLabels[roofingType][material],
+      lowCost,
+      highCost,
+      laborLowCost: labor[0],
+      laborHighCost: labor[1]
+    }))
+  );
+}
+
+export function defaultPriceBookRates(): UnitRate[] {
+  return (Object.keys(defaultUnitRates) as UnitRateItem[]).map(item => ({
+    item,
+    lowCost: defaultUnitRates[item][0],
+    highCost: defaultUnitRates[item][1]
+  }));
+}
+
+// Rates a version doesn't list, such as in versions published before unit
+// rates were kept, are priced at the built-in rates
+export function pricingFromPriceBook(priceBook: PriceBookItem[], rates: UnitRate[]): PriceSet {
+  const pricing: PriceSet = { materials: { residential: {}, commercial: {} }, rates: { ...defaultUnitRates } };
+  for (const item of priceBook) {
+    pricing.materials[item.roofingType][item.material] = {
+      material: [item.lowCost, item.highCost],
+      labor: [item.laborLowCost, item.laborHighCost]
+    };
+  }
+  for (const rate of rates) {
+    pricing.rates[rate.item] = [rate.lowCost, rate.highCost];
+  }
+  return pricing;
+}
+
+// Ranges are the installed field price per sq ft, material plus labor
+export function getMaterialOptions(roofingType: RoofingType, priceBook: PriceBookItem[] = defaultPriceBook()): MaterialOption[] {
+  return priceBook
+    .filter(item => item.roofingType === roofingType)
+    .map(item => {
+      const installed = (material: number, labor: number) => Math.round((material + labor) * 100) / 100;
+      const costRange: [number, number] = [
+        installed(item.lowCost, item.laborLowCost),
+        installed(item.highCost, item.laborHighCost)
+      ];
+      return {
+        value: item.material,
+        name: item.label,
+        label: `${item.label} ($${costRange[0]}-$${costRange[1]}/sq ft)`,
+        costRange
+      };
+    });
+}
+
+const SQ_FT_PER_SQUARE = 100;
+
+const perSquare = ([low, high]: [number, number]): [number, number] => [low * SQ_FT_PER_SQUARE, high * SQ_FT_PER_SQUARE];
+
+interface ComponentSpec {
+  description: string;
+  unit: string;
+  rate: 'field' | UnitRateItem; // the field material is priced by material, the rest per unit
+  quantity: (roof: RoofQuantities) => number;
+}
+
+const steepSlopeSystem = (field: string, ridge: string, ridgeRate: UnitRateItem): ComponentSpec[] => [
+  { description: field, unit: 'sq', rate: 'field', quantity: squares },
+  { description: unitRateItems.underlayment.label, unit: 'sq', rate: 'underlayment', quantity: squares },
+  { description: unitRateItems.drip_edge.label, unit: 'LF', rate: 'drip_edge', quantity: edgeFeet },
+  { description: ridge, unit: 'LF', rate: ridgeRate, quantity: ridgeFeet }
+];
+
+const lowSlopeSystem = (field: string): ComponentSpec[] => [
+  { description: field, unit: 'sq', rate: 'field', quantity: squares },
+  { description: unitRateItems.cover_board.label, unit: 'sq', rate: 'cover_board', quantity: squares },
+  { description: unitRateItems.edge_metal.label, unit: 'LF', rate: 'edge_metal', quantity: edgeFeet }
+];
+
+const materialComponents: Record<MaterialType, ComponentSpec[]> = {
+  asphalt: steepSlopeSystem('Field shingles', 'Ridge cap', 'ridge_cap'),
+  clay: steepSlopeSystem('Field tile', 'Ridge & hip trim tile', 'ridge_tile'),
+  metal: steepSlopeSystem('Metal panels', 'Ridge cap', 'ridge_cap'),
+  wood: steepSlopeSystem('Wood shakes', 'Ridge cap', 'ridge_cap'),
+  slate: steepSlopeSystem('Slate', 'Ridge cap', 'ridge_cap'),
+  membrane: lowSlopeSystem('Single-ply membrane'),
+  tpo: lowSlopeSystem('TPO membrane'),
+  pvc: lowSlopeSystem('PVC membrane'),
+  epdm: lowSlopeSystem('EPDM membrane'),
+  modified: lowSlopeSystem('Modified bitumen plies'),
+  bur: lowSlopeSystem('Built-up plies')
+};
+
+export function hasUnderlayment(material: MaterialType): boolean {
+  return materialComponents[material].some(component => component.rate === 'underlayment');
+}
+
+// The description of a component and how much its unit rate is scaled after the
+// product line and underlayment choices
+function applySystemOptions(
+  component: ComponentSpec,
+  productLine: ProductLine,
+  underlayment: UnderlaymentType
+): { description: string; multiplier: number } {
+  if (component.rate === 'field' && productLine !== 'standard') {
+    const option = productLineOptions[productLine];
+    return { description: `${component.description}, ${option.label.toLowerCase()} line`, multiplier: option.multiplier };
+  }
+  if (component.rate === 'underlayment' && underlayment !== 'standard') {
+    const option = underlaymentOptions[underlayment];
+    return { description: option.label, multiplier: option.multiplier };
+  }
+  return { description: component.description, multiplier: 1 };
+}
+
+// Prices quantity * unit rate at the low, mid and high rate, after the modifier
+function createLineItem(
+  category: LineItemCategory,
+  description: string,
+  quantity: number,
+  unit: string,
+  [lowRate, highRate]: [number, number],
+  modifier = 1
+): LineItem {
+  const unitCost = ((lowRate + highRate) / 2) * modifier;
+  return {
+    category,
+    description,
+    quantity,
+    unit,
+    unitCost,
+    low: quantity * lowRate * modifier,
+    mid: quantity * unitCost,
+    high: quantity * highRate * modifier
+  };
+}
+
+export function calculateRoofingCost(
+  formData: CalculatorFormData,
+  pricing: PriceSet,
+  costIndex: CostIndex = BASE_COST_INDEX
+): CostBreakdown | null {
+  const { roofingType, roofSize, material, jobType, complexity, tearoff, permits } = formData;
+
+  if (!roofSize || !material || roofSize <= 0 || !pricing.materials[roofingType][material]) {
+    return null;
+  }
+
+  const roof: RoofQuantities = { roofSize, ...(formData.edges ?? estimateEdges(roofSize, material)) };
+  const materialRates = pricing.materials[roofingType][material];
+  const { rates } = pricing;
+
+  // Modifiers applied to every material and labor line
+  let baseModifier = 1;
+
+  // Add commercial adjustment (+10% for scale)
+  if (roofingType === 'commercial') {
+    baseModifier *= 1.1;
+  }
+
+  // Apply job type modifier for repairs
+  if (jobType === 'repair') {
+    baseModifier *= 0.6;
+  }
+
+  const lineItems: LineItem[] = materialComponents[material].map(component => {
+    const { description, multiplier } = applySystemOptions(
+      component,
+      formData.productLine ?? 'standard',
+      formData.underlayment ?? 'standard'
+    );
+    return createLineItem(
+      'materials',
+      description,
+      component.quantity(roof),
+      component.unit,
+      component.rate === 'field' ? perSquare(materialRates.material) : rates[component.rate],
+      multiplier * baseModifier * costIndex.materialMultiplier
+    );
+  });
+
+  // Complexity only affects the labor portion
+  const complexityMultipliers = { simple: 0, medium: 0.2, complex: 0.4 };
+  const laborModifier = baseModifier * (1 + complexityMultipliers[complexity]) * costIndex.laborMultiplier;
+  lineItems.push(
+    createLineItem('labor', 'Installation labor', squares(roof), 'sq', perSquare(materialRates.labor), laborModifier)
+  );
+
+  const warranty = warrantyOptions[formData.warranty ?? 'standard'];
+  if (warranty.multiplier > 0) {
+    const installed = (select: (item: LineItem) => number) =>
+      lineItems.reduce((total, item) => total + select(item), 0) * warranty.multiplier;
+    lineItems.push(
+      createLineItem('addons', warranty.label, 1, 'ea', [installed(item => item.low), installed(item => item.high)])
+    );
+  }
+
+  // Tear-off is labor and follows the regional labor rate
+  if (tearoff && jobType === 'replacement') {
+    lineItems.push(
+      createLineItem('addons', unitRateItems.tearoff.label, squares(roof), 'sq', rates.tearoff, costIndex.laborMultiplier)
+    );
+  }
+  if (permits) {
+    lineItems.push(createLineItem('addons', unitRateItems.permits.label, 1, 'ea', rates.permits));
+  }
+
+  const sumBy = (select: (item: LineItem) => number, category?: LineItemCategory) =>
+    lineItems
+      .filter(item => !category || item.category === category)
+      .reduce((total, item) => total + select(item), 0);
+
+  return {
+    materials: sumBy(item => item.mid, 'materials'),
+    labor: sumBy(item => item.mid, 'labor'),
+    addons: sumBy(item => item.mid, 'addons'),
+    totalLow: sumBy(item => item.low),
+    totalHigh: sumBy(item => item.high),
+    totalMid: sumBy(item => item.mid),
+    lineItems,
+    takeoff: calculateTakeoff(material, roof),
+    region: costIndex.region
+  };
+}
+
+// Prices the same roof, job and add-ons with each material, skipping materials
+// the price book doesn't offer for the roofing type
+export function compareMaterials(
+  formData: Omit<CalculatorFormData, 'material'>,
+  materials: MaterialType[],
+  priceBook: PriceBookItem[],
+  rates: UnitRate[],
+  costIndex: CostIndex = BASE_COST_INDEX
+): MaterialComparisonRow[] {
+  const pricing = pricingFromPriceBook(priceBook, rates);
+  return materials.flatMap(material => {
+    const breakdown = calculateRoofingCost({ ...formData, material }, pricing, costIndex);
+    const item = priceBook.find(entry => entry.roofingType === formData.roofingType && entry.material === material);
+    if (!breakdown || !item) {
+      return [];
+    }
+    return [{ material, label: item.label, lifespan: materialLifespans[material], breakdown }];
+  });
+}
+
+// Change in totals going from one estimate to another
+export function estimateDelta(before: CostBreakdown, after: CostBreakdown): EstimateDelta {
+  return {
+    totalLow: after.totalLow - before.totalLow,
+    totalMid: after.totalMid - before.totalMid,
+    totalHigh: after.totalHigh - before.totalHigh
+  };
+}
+
+// Amount after a percentage discount, e.g. applyDiscount(20000, 5) = 19000
+export function applyDiscount(amount: number, percent: number): number {
+  return amount * (1 - percent / 100);
+}
+
+export const MAX_PITCH_RISE = 24;
+
+// Rise per 12" of run used by the pitch shortcuts
+export const pitchPresets: Record<PitchType, number> = {
+  flat: 0,
+  low: 4,
+  medium: 8,
+  steep: 12
+};
+
+export function slopeFactor(rise: number): number {
+  return Math.sqrt(1 + (rise / 12) ** 2);
+}
+
+export function riseFromDegrees(degrees: number): number {
+  return 12 * Math.tan((degrees * Math.PI) / 180);
+}
+
+export function degreesFromRise(rise: number): number {
+  return (Math.atan(rise / 12) * 180) / Math.PI;
+}
+
+export function measureFacet(facet: RoofFacet, overhang: number): FacetMeasurement {
+  const { type, length, width } = facet;
+
+  if (!length || !width || length <= 0 || width <= 0) {
+    return { planArea: 0, slopedArea: 0, eaveLength: 0, rakeLength: 0, ridgeLength: 0, hipLength: 0 };
+  }
+
+  // Flat sections are low-slope, at most 1/2" of rise per 12"
+  const rise = type === 'flat' ? Math.min(facet.pitchRise, 0.5) : facet.pitchRise;
+  const factor = slopeFactor(Math.min(Math.max(rise, 0), MAX_PITCH_RISE));
+
+  // Overhang extends the plan on every side
+  const overhangFeet = (overhang || 0) / 12;
+  const planLength = length + 2 * overhangFeet;
+  const planWidth = width + 2 * overhangFeet;
+  const planArea = planLength * planWidth;
+
+  let eaveLength = 0;
+  let rakeLength = 0;
+  let ridgeLength = 0;
+  let hipLength = 0;
+
+  switch (type) {
+    case 'gable':
+      eaveLength = 2 * planLength;
+      rakeLength = 2 * planWidth * factor;
+      ridgeLength = planLength;
+      break;
+    case 'hip': {
+      // Hips run from each corner at 45 degrees in plan up to the ridge
+      const span = Math.min(planLength, planWidth) / 2;
+      const hipPlan = span * Math.SQRT2;
+      const hipRise = span * (rise / 12);
+      eaveLength = 2 * (planLength + planWidth);
+      ridgeLength = Math.abs(planLength - planWidth);
+      hipLength = 4 * Math.sqrt(hipPlan ** 2 + hipRise ** 2);
+      break;
+    }
+    case 'shed':
+      eaveLength = planLength;
+      rakeLength = 2 * planWidth * factor;
+      break;
+    case 'flat':
+      eaveLength = 2 * (planLength + planWidth);
+      break;
+  }
+
+  return { planArea, slopedArea: planArea * factor, eaveLength, rakeLength, ridgeLength, hipLength };
+}
+
+export function measureRoof(data: RoofSizeHelperData): RoofMeasurement {
+  const facets = data.facets.map(facet => measureFacet(facet, data.overhang));
+  const sum = (select: (facet: FacetMeasurement) => number) =>
+    facets.reduce((total, facet) => total + select(facet), 0);
+
+  return {
+    planArea: sum(facet => facet.planArea),
+    slopedArea: sum(facet => facet.slopedArea),
+    eaveLength: sum(facet => facet.eaveLength),
+    rakeLength: sum(facet => facet.rakeLength),
+    ridgeLength: sum(facet => facet.ridgeLength),
+    hipLength: sum(facet => facet.hipLength),
+    facets
+  };
+}
+
+// Cut-off waste as a fraction of measured area, by material
+export const materialWasteFactors: Record<MaterialType, number> = {
+  asphalt: 0.1,
+  clay: 0.15,
+  metal: 0.1,
+  wood: 0.12,
+  slate: 0.15,
+  membrane: 0.05,
+  tpo: 0.05,
+  pvc: 0.05,
+  epdm: 0.05,
+  modified: 0.07,
+  bur: 0.07
+};
+
+// Used before a material is chosen
+export const DEFAULT_WASTE_FACTOR = 0.125;
+
+const complexityWaste: Record<ComplexityType, number> = { simple: 0, medium: 0.02, complex: 0.05 };
+
+// Each hip or valley adds cuts along its length; capped for very cut-up roofs
+const WASTE_PER_CUT_LINE = 0.01;
+const MAX_CUT_LINE_WASTE = 0.1;
+
+export function calculateWasteFactor(options: WasteOptions, hips = 0, valleys = 0): number {
+  const baseWaste = options.material ? materialWasteFactors[options.material] : DEFAULT_WASTE_FACTOR;
+  const cutLines = hips + valleys;
+
+  // Counted hips and valleys describe the roof better than the complexity setting
+  const shapeWaste = cutLines > 0
+    ? Math.min(cutLines * WASTE_PER_CUT_LINE, MAX_CUT_LINE_WASTE)
+    : complexityWaste[options.complexity];
+
+  return baseWaste + shapeWaste;
+}
+
+export function calculateRoofSize(data: RoofSizeHelperData, options: WasteOptions): RoofSizeEstimate {
+  const { slopedArea } = measureRoof(data);
+
+  if (slopedArea <= 0) {
+    return { measuredArea: 0, wasteFactor: 0, wasteArea: 0, totalArea: 0 };
+  }
+
+  const hips = 4 * data.facets.filter(facet => facet.type === 'hip' && facet.length > 0 && facet.width > 0).length;
+  const wasteFactor = calculateWasteFactor(options, hips, data.valleys);
+  const wasteArea = slopedArea * wasteFactor;
+
+  return {
+    measuredArea: slopedArea,
+    wasteFactor,
+    wasteArea,
+    totalArea: Math.round(slopedArea + wasteArea)
+  };
+}
@@ -0,0 +1,118 @@
+import { CalculatorFormData, CostIndex, CostSimulation, HistogramBin, PriceSet } from './roofing';
+import { calculateRoofingCost, warrantyOptions } from './roofing-calculations';
+import { BASE_COST_INDEX } from './regional-pricing';
+
+export interface SimulationOptions {
+  iterations?: number;
+  bins?: number;
+  seed?: number; // fixed by default so the same input always quotes the same range
+}
+
+// Mulberry32: small, fast seeded generator so results are reproducible
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Triangular distribution: cheap to sample and defined by min, most likely and max
+function sampleTriangular(random: () => number, min: number, mode: number, max: number): number {
+  if (max <= min) {
+    return mode;
+  }
+  const u = random();
+  const split = (mode - min) / (max - min);
+  return u < split
+    ? min + Math.sqrt(u * (max - min) * (mode - min))
+    : max - Math.sqrt((1 - u) * (max - min) * (max - mode));
+}
+
+function percentile(sorted: number[], p: number): number {
+  const position = (sorted.length - 1) * p;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+function buildHistogram(sorted: number[], bins: number): HistogramBin[] {
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+  const width = (max - min) / bins || 1;
+  const histogram: HistogramBin[] = Array.from({ length: bins }, (_, i) => ({
+    start: min + i * width,
+    end: min + (i + 1) * width,
+    count: 0
+  }));
+  for (const total of sorted) {
+    histogram[Math.min(Math.floor((total - min) / width), bins - 1)].count++;
+  }
+  return histogram;
+}
+
+// Labor hours vary more on the slow side than the fast side
+const LABOR_PRODUCTIVITY: [number, number, number] = [0.9, 1, 1.25];
+// Actual cut-off waste against what the roof size already allows for
+const WASTE_VARIANCE: [number, number, number] = [0.97, 1, 1.08];
+
+// Samples a price book range, most likely at its midpoint
+const sampleRange = (random: () => number, [low, high]: [number, number]) =>
+  sampleTriangular(random, low, (low + high) / 2, high);
+
+export function simulateRoofingCost(
+  formData: CalculatorFormData,
+  pricing: PriceSet,
+  costIndex: CostIndex = BASE_COST_INDEX,
+  { iterations = 5000, bins = 20, seed = 1 }: SimulationOptions = {}
+): CostSimulation | null {
+  const { roofingType, roofSize, material, jobType, tearoff, permits } = formData;
+
+  // Price the roof without add-ons once; add-ons are sampled separately below
+  const base = calculateRoofingCost({ ...formData, tearoff: false, permits: false }, pricing, costIndex);
+  if (!base || !material) {
+    return null;
+  }
+
+  const { labor: laborRange } = pricing.materials[roofingType][material];
+  const midpoint = ([low, high]: [number, number]) => (low + high) / 2;
+  const materialLines = base.lineItems.filter(item => item.category === 'materials');
+  const warranty = warrantyOptions[formData.warranty ?? 'standard'];
+  const roofSquares = Math.round(roofSize) / 100; // as on the tear-off line
+  const random = createRandom(seed);
+  const totals: number[] = [];
+
+  for (let i = 0; i < iterations; i++) {
+    // Each material line spans its own rate's range (the field material's
+    // or a unit rate's), so the field material and accessories vary independently
+    const materials =
+      materialLines.reduce((sum, item) => sum + sampleRange(random, [item.low, item.high]), 0) *
+      sampleTriangular(random, ...WASTE_VARIANCE);
+    const laborRatio = sampleRange(random, laborRange) / midpoint(laborRange);
+    const labor = base.labor * laborRatio * sampleTriangular(random, ...LABOR_PRODUCTIVITY);
+    // Extended warranties are priced on the installed system, as in the estimate
+    let total = (materials + labor) * (1 + warranty.multiplier);
+
+    if (tearoff && jobType === 'replacement') {
+      total += roofSquares * sampleRange(random, pricing.rates.tearoff) * costIndex.laborMultiplier;
+    }
+    if (permits) {
+      total += sampleRange(random, pricing.rates.permits);
+    }
+    totals.push(total);
+  }
+
+  totals.sort((a, b) => a - b);
+
+  return {
+    iterations,
+    p10: percentile(totals, 0.1),
+    p50: percentile(totals, 0.5),
+    p90: percentile(totals, 0.9),
+    mean: totals.reduce((sum, total) => sum + total, 0) / iterations,
+    histogram: buildHistogram(totals, bins)
+  };
+}
@@ -0,0 +1,107 @@
+import { MaterialType, RoofEdges, TakeoffItem } from './roofing';
+
+export interface RoofQuantities extends RoofEdges {
+  roofSize: number;
+}
+
+export const LOW_SLOPE_MATERIALS: MaterialType[] = ['membrane', 'tpo', 'pvc', 'epdm', 'modified', 'bur'];
+
+// Without measured edges, approximate the roof as a square plan with a single ridge
+export function estimateEdges(roofSize: number, material: MaterialType): RoofEdges {
+  const side = Math.sqrt(roofSize);
+
+  if (LOW_SLOPE_MATERIALS.includes(material)) {
+    return { eaveLength: 4 * side, rakeLength: 0, ridgeLength: 0, hipLength: 0 };
+  }
+  return { eaveLength: 2 * side, rakeLength: 2 * side, ridgeLength: side, hipLength: 0 };
+}
+
+export const squares = ({ roofSize }: RoofQuantities) => Math.round(roofSize) / 100;
+export const edgeFeet = ({ eaveLength, rakeLength }: RoofQuantities) => Math.ceil(eaveLength + rakeLength);
+export const ridgeFeet = ({ ridgeLength, hipLength }: RoofQuantities) => Math.ceil(ridgeLength + hipLength);
+
+interface TakeoffSpec {
+  description: string;
+  unit: string;
+  quantity: (roof: RoofQuantities) => number;
+}
+
+const perSquare = (rate: number) => (roof: RoofQuantities) => squares(roof) * rate;
+const perArea = (sqFtPerUnit: number, overlap = 1) => ({ roofSize }: RoofQuantities) =>
+  (roofSize * overlap) / sqFtPerUnit;
+const perFoot = (feet: (roof: RoofQuantities) => number, feetPerUnit: number) => (roof: RoofQuantities) =>
+  feet(roof) / feetPerUnit;
+
+const steepSlopeTakeoff = (items: TakeoffSpec[]): TakeoffSpec[] => [
+  { description: 'Roofing squares', unit: 'sq', quantity: squares },
+  ...items,
+  { description: 'Synthetic underlayment (10 sq rolls)', unit: 'rolls', quantity: perSquare(1 / 10) },
+  { description: 'Drip edge (10 ft pieces)', unit: 'pieces', quantity: perFoot(edgeFeet, 10) }
+];
+
+const lowSlopeTakeoff = (items: TakeoffSpec[]): TakeoffSpec[] => [
+  { description: 'Roofing squares', unit: 'sq', quantity: squares },
+  ...items,
+  { description: 'Cover board (4x8 ft sheets)', unit: 'sheets', quantity: perArea(32) },
+  { description: 'Edge metal (10 ft pieces)', unit: 'pieces', quantity: perFoot(edgeFeet, 10) }
+];
+
+const singlePlyTakeoff = (membrane: string): TakeoffSpec[] => lowSlopeTakeoff([
+  { description: `${membrane} rolls (10x100 ft)`, unit: 'rolls', quantity: perArea(1000, 1.1) },
+  { description: 'Fasteners & plates (500/bucket)', unit: 'buckets', quantity: perArea(2 * 500) }
+]);
+
+// Order quantities per material; rates include typical lap and seam overlap
+const materialTakeoff: Record<MaterialType, TakeoffSpec[]> = {
+  asphalt: steepSlopeTakeoff([
+    { description: 'Shingle bundles', unit: 'bundles', quantity: perSquare(3) },
+    { description: 'Starter strip (105 LF bundles)', unit: 'bundles', quantity: perFoot(edgeFeet, 105) },
+    { description: 'Ridge cap', unit: 'LF', quantity: ridgeFeet },
+    { description: 'Coil nails (7,200/box)', unit: 'boxes', quantity: perSquare(320 / 7200) }
+  ]),
+  clay: steepSlopeTakeoff([
+    { description: 'Field tiles', unit: 'pieces', quantity: perSquare(90) },
+    { description: 'Ridge & hip trim tiles', unit: 'pieces', quantity: perFoot(ridgeFeet, 1.25) },
+    { description: 'Tile fasteners (lb)', unit: 'lb', quantity: perSquare(2) }
+  ]),
+  metal: steepSlopeTakeoff([
+    { description: 'Metal panels (3x12 ft)', unit: 'panels', quantity: perArea(36) },
+    { description: 'Ridge cap', unit: 'LF', quantity: ridgeFeet },
+    { description: 'Panel screws (250/bag)', unit: 'bags', quantity: perSquare(80 / 250) }
+  ]),
+  wood: steepSlopeTakeoff([
+    { description: 'Shake bundles', unit: 'bundles', quantity: perSquare(5) },
+    { description: 'Ridge cap', unit: 'LF', quantity: ridgeFeet },
+    { description: 'Shake nails (5 lb boxes)', unit: 'boxes', quantity: perSquare(2 / 5) }
+  ]),
+  slate: steepSlopeTakeoff([
+    { description: 'Slates', unit: 'pieces', quantity: perSquare(180) },
+    { description: 'Ridge cap', unit: 'LF', quantity: ridgeFeet },
+    { description: 'Copper slating nails (lb)', unit: 'lb', quantity: perSquare(3) }
+  ]),
+  membrane: singlePlyTakeoff('Membrane'),
+  tpo: singlePlyTakeoff('TPO'),
+  pvc: singlePlyTakeoff('PVC'),
+  epdm: lowSlopeTakeoff([
+    { description: 'EPDM sheets (10x50 ft)', unit: 'sheets', quantity: perArea(500, 1.05) },
+    { description: 'Bonding adhesive (5 gal pails)', unit: 'pails', quantity: perArea(300) }
+  ]),
+  modified: lowSlopeTakeoff([
+    { description: 'Base sheet rolls (1 sq)', unit: 'rolls', quantity: perSquare(1.1) },
+    { description: 'Cap sheet rolls (1 sq)', unit: 'rolls', quantity: perSquare(1.1) }
+  ]),
+  bur: lowSlopeTakeoff([
+    { description: 'Ply felt rolls (4 sq)', unit: 'rolls', quantity: perSquare(1.1) },
+    { description: 'Roofing asphalt (100 lb kegs)', unit: 'kegs', quantity: perSquare(1.6) },
+    { description: 'Gravel surfacing', unit: 'tons', quantity: perSquare(0.2) }
+  ])
+};
+
+export function calculateTakeoff(material: MaterialType, roof: RoofQuantities): TakeoffItem[] {
+  return materialTakeoff[material].map(spec => ({
+    description: spec.description,
+    // Round up to whole units, ignoring floating-point noise such as 10 * 1.1
+    quantity: Math.ceil(spec.quantity(roof) - 1e-9),
+    unit: spec.unit
+  }));
+}
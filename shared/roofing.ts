@@ -0,0 +1,215 @@
+export type RoofingType = 'residential' | 'commercial';
+
+export type MaterialType = 
+  | 'asphalt' 
+  | 'clay' 
+  | 'metal' 
+  | 'wood' 
+  | 'slate' 
+  | 'membrane'
+  | 'tpo'
+  | 'pvc'
+  | 'epdm'
+  | 'modified'
+  | 'bur';
+
+export type JobType = 'new' | 'replacement' | 'repair';
+
+export type ComplexityType = 'simple' | 'medium' | 'complex';
+
+// Options that distinguish Good / Better / Best tiers of the same roof
+export type ProductLine = 'standard' | 'premium' | 'designer';
+
+export type UnderlaymentType = 'standard' | 'premium' | 'ice_and_water';
+
+export type WarrantyType = 'standard' | 'enhanced' | 'lifetime';
+
+export interface SystemOption {
+  label: string;
+  multiplier: number; // scales the unit rate of the affected line; warranties are a share of the installed price
+}
+
+export type PitchType = 'flat' | 'low' | 'medium' | 'steep'; // presets for common pitches
+
+// Accessories, add-ons and fees priced per unit, the same for every material
+export type UnitRateItem =
+  | 'underlayment'
+  | 'drip_edge'
+  | 'ridge_cap'
+  | 'ridge_tile'
+  | 'cover_board'
+  | 'edge_metal'
+  | 'tearoff'
+  | 'permits';
+
+export type UnitRates = Record<UnitRateItem, [number, number]>; // [low, high] $ per unit
+
+export interface MaterialRates {
+  material: [number, number]; // [low, high] $ per sq ft of field material
+  labor: [number, number]; // [low, high] $ per sq ft to install it
+}
+
+export interface MaterialPricing {
+  [key: string]: MaterialRates;
+}
+
+// Rates for every material offered, by roofing type, and the per-unit rates
+export interface PriceSet {
+  materials: Record<RoofingType, MaterialPricing>;
+  rates: UnitRates;
+}
+
+export interface CostIndex {
+  region: string;
+  laborMultiplier: number;
+  materialMultiplier: number;
+}
+
+export interface PriceBookItem {
+  roofingType: RoofingType;
+  material: MaterialType;
+  label: string;
+  lowCost: number; // $ per sq ft, field material only
+  highCost: number;
+  laborLowCost: number; // $ per sq ft, installation labor
+  laborHighCost: number;
+}
+
+export interface UnitRate {
+  item: UnitRateItem;
+  lowCost: number; // $ per unit
+  highCost: number;
+}
+
+export interface UnitRateInfo {
+  label: string;
+  unit: string;
+}
+
+export interface MaterialOption {
+  value: MaterialType;
+  name: string; // the price book label on its own
+  label: string;
+  costRange: [number, number]; // field material and labor, $ per sq ft
+}
+
+export type LineItemCategory = 'materials' | 'labor' | 'addons';
+
+export interface LineItem {
+  category: LineItemCategory;
+  description: string;
+  quantity: number;
+  unit: string;
+  unitCost: number; // mid-range cost per unit; mid is quantity * unitCost
+  low: number;
+  mid: number;
+  high: number;
+}
+
+export interface TakeoffItem {
+  description: string;
+  quantity: number; // whole orderable units
+  unit: string;
+}
+
+export interface CostBreakdown {
+  materials: number; // mid-range sums of the line items in each category
+  labor: number;
+  addons: number;
+  totalLow: number;
+  totalHigh: number;
+  totalMid: number;
+  lineItems: LineItem[];
+  takeoff: TakeoffItem[];
+  region: string; // cost index the estimate was priced for
+}
+
+export interface PricedCostBreakdown extends CostBreakdown {
+  priceBookVersionId: string;
+}
+
+export interface MaterialComparisonRow {
+  material: MaterialType;
+  label: string;
+  lifespan: [number, number]; // typical service life in years
+  breakdown: CostBreakdown;
+}
+
+export interface HistogramBin {
+  start: number;
+  end: number;
+  count: number;
+}
+
+export interface CostSimulation {
+  iterations: number;
+  p10: number;
+  p50: number;
+  p90: number;
+  mean: number;
+  histogram: HistogramBin[];
+}
+
+export interface EstimateDelta {
+  totalLow: number;
+  totalMid: number;
+  totalHigh: number;
+}
+
+export interface CalculatorFormData {
+  roofingType: RoofingType;
+  roofSize: number;
+  material: MaterialType | '';
+  jobType: JobType;
+  complexity: ComplexityType;
+  tearoff: boolean;
+  permits: boolean;
+  edges?: RoofEdges; // measured by the size helper; estimated from roofSize when absent
+  zipCode?: string; // project location, selects the regional cost index
+  productLine?: ProductLine; // the system options default to 'standard'
+  underlayment?: UnderlaymentType;
+  warranty?: WarrantyType;
+}
+
+export type FacetType = 'gable' | 'hip' | 'shed' | 'flat';
+
+export interface RoofFacet {
+  type: FacetType;
+  length: number; // feet along the eave/ridge, before overhang
+  width: number; // feet across the span, before overhang
+  pitchRise: number; // inches of rise per 12 inches of run
+}
+
+export interface RoofEdges {
+  eaveLength: number; // linear feet
+  rakeLength: number;
+  ridgeLength: number;
+  hipLength: number;
+}
+
+export interface FacetMeasurement extends RoofEdges {
+  planArea: number; // sq ft including overhang
+  slopedArea: number; // sq ft of roof surface
+}
+
+export interface RoofMeasurement extends FacetMeasurement {
+  facets: FacetMeasurement[];
+}
+
+export interface RoofSizeHelperData {
+  facets: RoofFacet[];
+  overhang: number; // inches, applied to every exposed edge
+  valleys: number; // where sections meet; hips are counted from hip sections
+}
+
+export interface WasteOptions {
+  material: MaterialType | '';
+  complexity: ComplexityType;
+}
+
+export interface RoofSizeEstimate {
+  measuredArea: number; // sq ft of roof surface
+  wasteFactor: number; // fraction of measured area, e.g. 0.1
+  wasteArea: number;
+  totalArea: number; // measured area plus waste, rounded
+}
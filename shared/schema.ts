@@ -1,18 +1,777 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar } from "drizzle-orm/pg-core";
+import {
+  doublePrecision,
+  integer,
+  jsonb,
+  pgTable,
+  text,
+  timestamp,
+  unique,
+  varchar,
+} from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
-import { z } from "zod";
+import { z, ZodError } from "zod";
+import type {
+  CostBreakdown,
+  EstimateDelta,
+  MaterialType,
+  PricedCostBreakdown,
+  RoofingType,
+  UnitRateItem,
+} from "./roofing";
+import { DEFAULT_LOCALE, isMessageKey, LOCALES, translate, type Locale, type MessageKey } from "./i18n";
+
+export const userRoleSchema = z.enum(["homeowner", "estimator", "sales_manager", "admin"]);
+
+export type UserRole = z.infer<typeof userRoleSchema>;
 
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
+  role: text("role").$type<UserRole>().notNull().default("homeowner"),
 });
 
-export const insertUserSchema = createInsertSchema(users).pick({
+export const insertUserSchema = createInsertSchema(users, {
+  username: (schema) => schema.trim().min(3, "Username must be at least 3 characters"),
+  password: (schema) => schema.min(8, "Password must be at least 8 characters"),
+}).pick({
   username: true,
   password: true,
 });
 
+// Admins choose the role when adding staff
+export const createUserSchema = insertUserSchema.extend({
+  role: userRoleSchema.default("estimator"),
+});
+
+export const updateUserSchema = z.object({
+  role: userRoleSchema,
+});
+
+export const loginSchema = z.object({
+  username: z.string().trim().min(1, "Username is required"),
+  password: z.string().min(1, "Password is required"),
+});
+
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type CreateUser = z.infer<typeof createUserSchema>;
+export type UpdateUser = z.infer<typeof updateUserSchema>;
+export type Login = z.infer<typeof loginSchema>;
 export type User = typeof users.$inferSelect;
+// Users as sent to the client, never including the password hash
+export type SafeUser = Omit<User, "password">;
+
+// Lets the sign-in page offer account creation only until the first admin exists
+export interface AuthSetup {
+  needsAdmin: boolean;
+}
+
+export const roofingTypeSchema = z.enum(["residential", "commercial"]);
+export const materialTypeSchema = z.enum([
+  "asphalt",
+  "clay",
+  "metal",
+  "wood",
+  "slate",
+  "membrane",
+  "tpo",
+  "pvc",
+  "epdm",
+  "modified",
+  "bur",
+]);
+export const jobTypeSchema = z.enum(["new", "replacement", "repair"]);
+export const complexityTypeSchema = z.enum(["simple", "medium", "complex"]);
+export const productLineSchema = z.enum(["standard", "premium", "designer"]);
+export const underlaymentTypeSchema = z.enum(["standard", "premium", "ice_and_water"]);
+export const warrantyTypeSchema = z.enum(["standard", "enhanced", "lifetime"]);
+export const unitRateItemSchema = z.enum([
+  "underlayment",
+  "drip_edge",
+  "ridge_cap",
+  "ridge_tile",
+  "cover_board",
+  "edge_metal",
+  "tearoff",
+  "permits",
+]);
+
+export const MAX_ROOF_SIZE = 50000;
+
+export const localeSchema = z.enum(LOCALES);
+
+export const roofEdgesSchema = z.object({
+  eaveLength: z.number().nonnegative(),
+  rakeLength: z.number().nonnegative(),
+  ridgeLength: z.number().nonnegative(),
+  hipLength: z.number().nonnegative(),
+});
+
+// The calculator inputs on their own; calculatorFormSchema adds the rules
+// between them.
+export const calculatorFormFieldsSchema = z.object({
+  roofingType: roofingTypeSchema,
+  roofSize: z.coerce
+    .number()
+    .positive("validation.roofSizePositive")
+    .max(MAX_ROOF_SIZE, "validation.roofSizeMax"),
+  material: z.enum(materialTypeSchema.options, {
+    errorMap: () => ({ message: "validation.material" }),
+  }),
+  jobType: jobTypeSchema,
+  complexity: complexityTypeSchema,
+  tearoff: z.boolean().default(false),
+  permits: z.boolean().default(false),
+  edges: roofEdgesSchema.optional(),
+  zipCode: z
+    .string()
+    .trim()
+    .regex(/^(\d{5})?$/, "validation.zipCode")
+    .optional(),
+  productLine: productLineSchema.optional(),
+  underlayment: underlaymentTypeSchema.optional(),
+  warranty: warrantyTypeSchema.optional(),
+});
+
+function checkCalculatorInputs(
+  { jobType, tearoff }: Pick<z.infer<typeof calculatorFormFieldsSchema>, "jobType" | "tearoff">,
+  ctx: z.RefinementCtx,
+) {
+  if (tearoff && jobType !== "replacement") {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "validation.tearoff",
+      path: ["tearoff"],
+    });
+  }
+}
+
+// Shared by the calculator form and POST /api/estimates/calculate so both
+// sides reject the same input.
+// Whether the material is offered for the roofing type is checked against the
+// price book by the server.
+export const calculatorFormSchema = calculatorFormFieldsSchema.superRefine(checkCalculatorInputs);
+
+export type ValidCalculatorFormData = z.infer<typeof calculatorFormSchema>;
+
+// Unset options are priced the same as these
+const calculatorInputDefaults: Partial<ValidCalculatorFormData> = {
+  zipCode: "",
+  productLine: "standard",
+  underlayment: "standard",
+  warranty: "standard",
+};
+
+function sameValue(left: unknown, right: unknown): boolean {
+  if (left && right && typeof left === "object" && typeof right === "object") {
+    const keys = new Set([...Object.keys(left), ...Object.keys(right)]);
+    return Array.from(keys).every((key) =>
+      sameValue((left as Record<string, unknown>)[key], (right as Record<string, unknown>)[key]),
+    );
+  }
+  return left === right;
+}
+
+// Whether two sets of inputs are the same, whatever their key order, so saving
+// an estimate with unchanged inputs keeps the prices it was quoted at
+export function sameCalculatorInputs(a: ValidCalculatorFormData, b: ValidCalculatorFormData): boolean {
+  return calculatorFormFieldsSchema
+    .keyof()
+    .options.every((key) =>
+      sameValue(a[key] ?? calculatorInputDefaults[key], b[key] ?? calculatorInputDefaults[key]),
+    );
+}
+
+export const lineItemSchema = z.object({
+  category: z.enum(["materials", "labor", "addons"]),
+  description: z.string(),
+  quantity: z.number().nonnegative(),
+  unit: z.string(),
+  unitCost: z.number().nonnegative(),
+  low: z.number(),
+  mid: z.number(),
+  high: z.number(),
+});
+
+export const takeoffItemSchema = z.object({
+  description: z.string(),
+  quantity: z.number().nonnegative(),
+  unit: z.string(),
+});
+
+// Breakdowns are normally computed on the server; this checks ones coming back in from an import
+export const costBreakdownSchema = z.object({
+  materials: z.number(),
+  labor: z.number(),
+  addons: z.number(),
+  totalLow: z.number(),
+  totalHigh: z.number(),
+  totalMid: z.number(),
+  lineItems: z.array(lineItemSchema),
+  takeoff: z.array(takeoffItemSchema),
+  region: z.string(),
+});
+
+export const MAX_COMPARED_MATERIALS = 6;
+
+// The calculator inputs with a list of materials in place of the single one
+export const compareMaterialsSchema = calculatorFormFieldsSchema
+  .omit({ material: true })
+  .extend({
+    materials: z
+      .array(materialTypeSchema)
+      .min(2, "validation.compareMin")
+      .max(MAX_COMPARED_MATERIALS, "validation.compareMax")
+      .refine((materials) => new Set(materials).size === materials.length, "validation.compareUnique"),
+  })
+  .superRefine(checkCalculatorInputs);
+
+export type CompareMaterials = z.infer<typeof compareMaterialsSchema>;
+
+// Fills the limits into the validation messages that mention them
+const validationParams = {
+  maxRoofSize: MAX_ROOF_SIZE,
+  maxComparedMaterials: MAX_COMPARED_MATERIALS,
+};
+
+// The customer-facing schemas use message keys, translated here. zod's own
+// messages are English only, so other languages get a generic one instead.
+export function validationMessage(message: string, locale: Locale = DEFAULT_LOCALE): string {
+  if (isMessageKey(message)) {
+    return translate(locale, message, validationParams);
+  }
+  return locale === DEFAULT_LOCALE ? message : translate(locale, "validation.invalid");
+}
+
+// The same issues with their messages written out, for fromZodError
+export function localizeZodError(error: ZodError, locale: Locale = DEFAULT_LOCALE): ZodError {
+  return new ZodError(
+    error.issues.map((issue) => ({ ...issue, message: validationMessage(issue.message, locale) })),
+  );
+}
+
+// Error responses. Those the customer sees carry a message key in `code`, so
+// the client can show them in the customer's language.
+export interface ApiErrorBody {
+  message: string;
+  code?: MessageKey;
+  params?: Record<string, string | number>;
+}
+
+// The key and limits for the first issue, if its message has a key
+export function validationErrorCode(error: ZodError): Pick<ApiErrorBody, "code" | "params"> {
+  const [issue] = error.issues;
+  return issue && isMessageKey(issue.message) ? { code: issue.message, params: validationParams } : {};
+}
+
+export const priceBookVersions = pgTable("price_book_versions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  label: text("label").notNull(),
+  effectiveFrom: timestamp("effective_from").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const priceBookEntries = pgTable(
+  "price_book_entries",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    versionId: varchar("version_id")
+      .notNull()
+      .references(() => priceBookVersions.id),
+    roofingType: text("roofing_type").$type<RoofingType>().notNull(),
+    material: text("material").$type<MaterialType>().notNull(),
+    label: text("label").notNull(),
+    lowCost: doublePrecision("low_cost").notNull(), // $ per sq ft, field material only
+    highCost: doublePrecision("high_cost").notNull(),
+    laborLowCost: doublePrecision("labor_low_cost").notNull(), // $ per sq ft to install
+    laborHighCost: doublePrecision("labor_high_cost").notNull(),
+  },
+  (table) => [unique().on(table.versionId, table.roofingType, table.material)],
+);
+
+// Accessories, add-ons and fees, priced per unit for every material
+export const priceBookRates = pgTable(
+  "price_book_rates",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    versionId: varchar("version_id")
+      .notNull()
+      .references(() => priceBookVersions.id),
+    item: text("item").$type<UnitRateItem>().notNull(),
+    lowCost: doublePrecision("low_cost").notNull(), // $ per unit
+    highCost: doublePrecision("high_cost").notNull(),
+  },
+  (table) => [unique().on(table.versionId, table.item)],
+);
+
+export const insertPriceBookEntrySchema = createInsertSchema(priceBookEntries, {
+  roofingType: roofingTypeSchema,
+  material: materialTypeSchema,
+  label: (schema) => schema.min(1, "Label is required"),
+  lowCost: (schema) => schema.positive("Low cost must be positive"),
+  highCost: (schema) => schema.positive("High cost must be positive"),
+  laborLowCost: (schema) => schema.positive("Low labor cost must be positive"),
+  laborHighCost: (schema) => schema.positive("High labor cost must be positive"),
+})
+  .pick({
+    roofingType: true,
+    material: true,
+    label: true,
+    lowCost: true,
+    highCost: true,
+    laborLowCost: true,
+    laborHighCost: true,
+  })
+  .refine((entry) => entry.highCost >= entry.lowCost, {
+    path: ["highCost"],
+    message: "High cost must be at least the low cost",
+  })
+  .refine((entry) => entry.laborHighCost >= entry.laborLowCost, {
+    path: ["laborHighCost"],
+    message: "High labor cost must be at least the low labor cost",
+  });
+
+export const insertPriceBookRateSchema = createInsertSchema(priceBookRates, {
+  item: unitRateItemSchema,
+  lowCost: (schema) => schema.nonnegative("Low cost can't be negative"),
+  highCost: (schema) => schema.nonnegative("High cost can't be negative"),
+})
+  .pick({
+    item: true,
+    lowCost: true,
+    highCost: true,
+  })
+  .refine((rate) => rate.highCost >= rate.lowCost, {
+    path: ["highCost"],
+    message: "High cost must be at least the low cost",
+  });
+
+export const insertPriceBookVersionSchema = createInsertSchema(priceBookVersions, {
+  label: (schema) => schema.min(1, "Label is required"),
+  effectiveFrom: z.coerce.date(),
+}).pick({
+  label: true,
+  effectiveFrom: true,
+});
+
+// Entries and rates are merged over the current version; materials and rates
+// left out carry over unchanged.
+export const publishPriceBookSchema = insertPriceBookVersionSchema
+  .extend({
+    entries: z.array(insertPriceBookEntrySchema).default([]),
+    rates: z.array(insertPriceBookRateSchema).default([]),
+  })
+  .refine((changes) => changes.entries.length + changes.rates.length > 0, {
+    path: ["entries"],
+    message: "At least one price change is required",
+  });
+
+export type InsertPriceBookEntry = z.infer<typeof insertPriceBookEntrySchema>;
+export type PriceBookEntry = typeof priceBookEntries.$inferSelect;
+export type InsertPriceBookRate = z.infer<typeof insertPriceBookRateSchema>;
+export type PriceBookRate = typeof priceBookRates.$inferSelect;
+export type InsertPriceBookVersion = z.infer<typeof insertPriceBookVersionSchema>;
+export type PriceBookVersion = typeof priceBookVersions.$inferSelect;
+export type PublishPriceBook = z.infer<typeof publishPriceBookSchema>;
+
+export const costIndexes = pgTable("cost_indexes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  zipCode: varchar("zip_code", { length: 5 }).notNull().unique(),
+  region: text("region").notNull(),
+  laborMultiplier: doublePrecision("labor_multiplier").notNull(),
+  materialMultiplier: doublePrecision("material_multiplier").notNull(),
+});
+
+export const insertCostIndexSchema = createInsertSchema(costIndexes, {
+  zipCode: (schema) => schema.regex(/^\d{5}$/, "Enter a 5-digit ZIP code"),
+  region: (schema) => schema.min(1, "Region is required"),
+  laborMultiplier: (schema) => schema.positive(),
+  materialMultiplier: (schema) => schema.positive(),
+}).pick({
+  zipCode: true,
+  region: true,
+  laborMultiplier: true,
+  materialMultiplier: true,
+});
+
+export type InsertCostIndex = z.infer<typeof insertCostIndexSchema>;
+export type CostIndexRecord = typeof costIndexes.$inferSelect;
+
+export const customers = pgTable("customers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  email: text("email"),
+  phone: text("phone"),
+  address: text("address"),
+  // Proposals are generated in this language
+  language: text("language").$type<Locale>().notNull().default("en"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertCustomerSchema = createInsertSchema(customers, {
+  name: (schema) => schema.trim().min(1, "Customer name is required"),
+  email: (schema) => schema.trim().email("Enter a valid email address").or(z.literal("")),
+  language: () => localeSchema.optional(),
+}).pick({
+  name: true,
+  email: true,
+  phone: true,
+  address: true,
+  language: true,
+});
+
+export type InsertCustomer = z.infer<typeof insertCustomerSchema>;
+export type Customer = typeof customers.$inferSelect;
+
+export const discountStatusSchema = z.enum(["none", "pending", "approved", "rejected"]);
+
+export type DiscountStatus = z.infer<typeof discountStatusSchema>;
+
+export const MAX_DISCOUNT_PERCENT = 30;
+
+export const tierLevelSchema = z.enum(["good", "better", "best"]);
+
+export type TierLevel = z.infer<typeof tierLevelSchema>;
+
+export const tierLabels: Record<TierLevel, string> = {
+  good: "Good",
+  better: "Better",
+  best: "Best",
+};
+
+// One priced option of a tiered estimate. Tiers share the estimate's roof
+// measurement and job, and differ in material and system options.
+export interface EstimateTier {
+  level: TierLevel;
+  formData: ValidCalculatorFormData;
+  breakdown: CostBreakdown;
+}
+
+// Breakdowns are priced on the server when an estimate is saved, so clients
+// only send the inputs.
+export const estimates = pgTable("estimates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  customerId: varchar("customer_id").references(() => customers.id),
+  title: text("title").notNull(),
+  formData: jsonb("form_data").$type<ValidCalculatorFormData>().notNull(),
+  breakdown: jsonb("breakdown").$type<CostBreakdown>().notNull(),
+  priceBookVersionId: varchar("price_book_version_id")
+    .notNull()
+    .references(() => priceBookVersions.id),
+  // Discounts are requested by estimators and only apply once a manager approves them
+  discountPercent: doublePrecision("discount_percent").notNull().default(0),
+  discountStatus: text("discount_status").$type<DiscountStatus>().notNull().default("none"),
+  discountReviewedBy: varchar("discount_reviewed_by").references(() => users.id),
+  createdBy: varchar("created_by").references(() => users.id),
+  // Good / Better / Best options. Once the customer accepts one, formData and
+  // breakdown are set to that tier.
+  tiers: jsonb("tiers").$type<EstimateTier[]>().notNull().default([]),
+  acceptedTier: text("accepted_tier").$type<TierLevel>(),
+  acceptedAt: timestamp("accepted_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertEstimateSchema = z.object({
+  title: z.string().trim().min(1, "Title is required"),
+  customerId: z.string().nullish(),
+  customer: insertCustomerSchema.optional(), // creates a new customer for the estimate
+  formData: calculatorFormSchema,
+});
+
+export const updateEstimateSchema = insertEstimateSchema.partial();
+
+export const requestDiscountSchema = z.object({
+  percent: z
+    .number()
+    .gt(0, "Discount must be more than 0%")
+    .max(MAX_DISCOUNT_PERCENT, `Discount cannot exceed ${MAX_DISCOUNT_PERCENT}%`),
+});
+
+export const reviewDiscountSchema = z.object({
+  approved: z.boolean(),
+});
+
+export const estimateTierSchema = z.object({
+  level: tierLevelSchema,
+  material: materialTypeSchema,
+  productLine: productLineSchema,
+  underlayment: underlaymentTypeSchema,
+  warranty: warrantyTypeSchema,
+});
+
+// Either no tiers, or exactly one of each level
+export const setEstimateTiersSchema = z.object({
+  tiers: z
+    .array(estimateTierSchema)
+    .refine(
+      (tiers) =>
+        tiers.length === 0 ||
+        (tiers.length === tierLevelSchema.options.length &&
+          tierLevelSchema.options.every((level) => tiers.some((tier) => tier.level === level))),
+      "Provide one Good, one Better and one Best option",
+    ),
+});
+
+export const acceptTierSchema = z.object({
+  tier: tierLevelSchema,
+});
+
+export type InsertEstimate = z.infer<typeof insertEstimateSchema>;
+export type UpdateEstimate = z.infer<typeof updateEstimateSchema>;
+export type RequestDiscount = z.infer<typeof requestDiscountSchema>;
+export type ReviewDiscount = z.infer<typeof reviewDiscountSchema>;
+export type EstimateTierChoice = z.infer<typeof estimateTierSchema>;
+export type SetEstimateTiers = z.infer<typeof setEstimateTiersSchema>;
+export type AcceptTier = z.infer<typeof acceptTierSchema>;
+
+// The choices a priced tier was built from, e.g. to reprice it on a new roof
+export function tierChoice({ level, formData }: EstimateTier): EstimateTierChoice {
+  return {
+    level,
+    material: formData.material,
+    productLine: formData.productLine ?? "standard",
+    underlayment: formData.underlayment ?? "standard",
+    warranty: formData.warranty ?? "standard",
+  };
+}
+export type Estimate = typeof estimates.$inferSelect;
+// Timestamps default to now; imports pass the originals
+export type NewEstimate = Omit<typeof estimates.$inferInsert, "id">;
+
+export interface EstimateWithCustomer extends Estimate {
+  customer: Customer | null;
+}
+
+export const ESTIMATE_EXPORT_FORMAT = "roofing-estimates";
+export const ESTIMATE_EXPORT_VERSION = 1;
+
+// One estimate in the JSON export. Ids and users don't carry over between
+// environments, so the price book is also identified by label and the
+// customer is exported by value.
+export const exportedEstimateSchema = z.object({
+  id: z.string(),
+  title: z.string().trim().min(1, "Title is required"),
+  customer: insertCustomerSchema.nullable(),
+  formData: calculatorFormSchema,
+  breakdown: costBreakdownSchema,
+  priceBook: z.object({ id: z.string(), label: z.string() }),
+  discountPercent: z.number().min(0).max(MAX_DISCOUNT_PERCENT),
+  discountStatus: discountStatusSchema,
+  tiers: z.array(
+    z.object({
+      level: tierLevelSchema,
+      formData: calculatorFormSchema,
+      breakdown: costBreakdownSchema,
+    }),
+  ),
+  acceptedTier: tierLevelSchema.nullable(),
+  acceptedAt: z.coerce.date().nullable(),
+  createdAt: z.coerce.date(),
+  updatedAt: z.coerce.date(),
+});
+
+export const estimateExportSchema = z.object({
+  format: z.literal(ESTIMATE_EXPORT_FORMAT),
+  version: z.literal(ESTIMATE_EXPORT_VERSION),
+  exportedAt: z.coerce.date(),
+  estimates: z.array(exportedEstimateSchema).min(1, "The file has no estimates"),
+});
+
+export type ExportedEstimate = z.infer<typeof exportedEstimateSchema>;
+export type EstimateExport = z.infer<typeof estimateExportSchema>;
+
+// Snapshots of an estimate's inputs and pricing, one per save, so changes can
+// be audited and undone
+export const estimateRevisions = pgTable(
+  "estimate_revisions",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    estimateId: varchar("estimate_id")
+      .notNull()
+      .references(() => estimates.id, { onDelete: "cascade" }),
+    number: integer("number").notNull(),
+    title: text("title").notNull(),
+    formData: jsonb("form_data").$type<ValidCalculatorFormData>().notNull(),
+    breakdown: jsonb("breakdown").$type<CostBreakdown>().notNull(),
+    priceBookVersionId: varchar("price_book_version_id")
+      .notNull()
+      .references(() => priceBookVersions.id),
+    note: text("note"), // e.g. "Restored revision 2"
+    createdBy: varchar("created_by").references(() => users.id),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => [unique().on(table.estimateId, table.number)],
+);
+
+export type EstimateRevision = typeof estimateRevisions.$inferSelect;
+export type NewEstimateRevision = Omit<typeof estimateRevisions.$inferInsert, "id" | "createdAt">;
+
+export interface EstimateRevisionWithAuthor extends EstimateRevision {
+  author: string | null; // username of whoever saved it
+}
+
+export type RevisionField =
+  | "priceBook"
+  | "material"
+  | "roofSize"
+  | "jobType"
+  | "complexity"
+  | "tearoff"
+  | "permits"
+  | "zipCode"
+  | "productLine"
+  | "underlayment"
+  | "warranty";
+
+// One changed input and how much it moved the totals. Inputs are applied in
+// order, so each delta is measured on top of the changes listed before it.
+export interface RevisionChange {
+  field: RevisionField;
+  label: string;
+  before: string;
+  after: string;
+  delta: EstimateDelta | null; // null when not priceable alone; the next priced step includes it
+}
+
+export interface RevisionDiff {
+  from: EstimateRevision;
+  to: EstimateRevision;
+  titleChanged: boolean;
+  changes: RevisionChange[];
+  otherDelta: EstimateDelta; // e.g. regional rate updates, not explained by any input
+  delta: EstimateDelta;
+}
+
+export const SHARE_LINK_MAX_DAYS = 90;
+
+// Read-only links staff send to homeowners. The token is the only credential,
+// so links can be revoked and optionally expire.
+export const estimateShareLinks = pgTable("estimate_share_links", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  estimateId: varchar("estimate_id")
+    .notNull()
+    .references(() => estimates.id, { onDelete: "cascade" }),
+  token: text("token").notNull().unique(),
+  expiresAt: timestamp("expires_at"),
+  revokedAt: timestamp("revoked_at"),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const createShareLinkSchema = z.object({
+  // Omit for a link that stays valid until revoked
+  expiresInDays: z
+    .number()
+    .int("Expiry must be a whole number of days")
+    .min(1, "Links must last at least a day")
+    .max(SHARE_LINK_MAX_DAYS, `Links can last at most ${SHARE_LINK_MAX_DAYS} days`)
+    .nullish(),
+});
+
+export type CreateShareLink = z.infer<typeof createShareLinkSchema>;
+export type EstimateShareLink = typeof estimateShareLinks.$inferSelect;
+export type NewEstimateShareLink = Omit<
+  typeof estimateShareLinks.$inferInsert,
+  "id" | "createdAt" | "revokedAt"
+>;
+
+// What a share link exposes: the priced estimate, without customer contact details
+export interface SharedEstimate {
+  title: string;
+  customerName: string | null;
+  formData: ValidCalculatorFormData;
+  breakdown: CostBreakdown;
+  discountPercent: number; // 0 unless a discount has been approved
+  tiers: EstimateTier[];
+  acceptedTier: TierLevel | null;
+  updatedAt: Date;
+  expiresAt: Date | null;
+}
+
+export const contactTimeSchema = z.enum(["anytime", "morning", "afternoon", "evening"]);
+export const leadStatusSchema = z.enum(["new", "contacted", "won", "lost"]);
+
+export type ContactTime = z.infer<typeof contactTimeSchema>;
+export type LeadStatus = z.infer<typeof leadStatusSchema>;
+
+// Homeowner quote requests, with the estimate they built priced on the server
+export const leads = pgTable("leads", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  phone: text("phone"),
+  email: text("email"),
+  address: text("address"),
+  preferredContactTime: text("preferred_contact_time")
+    .$type<ContactTime>()
+    .notNull()
+    .default("anytime"),
+  // The language the homeowner used the calculator in, to follow up in
+  language: text("language").$type<Locale>().notNull().default("en"),
+  formData: jsonb("form_data").$type<ValidCalculatorFormData>().notNull(),
+  breakdown: jsonb("breakdown").$type<CostBreakdown>().notNull(),
+  priceBookVersionId: varchar("price_book_version_id")
+    .notNull()
+    .references(() => priceBookVersions.id),
+  status: text("status").$type<LeadStatus>().notNull().default("new"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertLeadSchema = z
+  .object({
+    name: z.string().trim().min(1, "validation.name"),
+    phone: z.string().trim().optional(),
+    email: z.string().trim().email("validation.email").or(z.literal("")).optional(),
+    address: z.string().trim().optional(),
+    preferredContactTime: contactTimeSchema.default("anytime"),
+    language: localeSchema.default("en"),
+    formData: calculatorFormSchema,
+  })
+  .refine((lead) => !!lead.phone || !!lead.email, {
+    message: "validation.contact",
+    path: ["phone"],
+  });
+
+export const updateLeadSchema = z.object({
+  status: leadStatusSchema,
+});
+
+export type InsertLead = z.infer<typeof insertLeadSchema>;
+export type UpdateLead = z.infer<typeof updateLeadSchema>;
+export type Lead = typeof leads.$inferSelect;
+export type NewLead = Omit<typeof leads.$inferInsert, "id" | "createdAt">;
+
+export interface MaterialReportRow {
+  material: MaterialType;
+  count: number;
+  quotedTotal: number;
+}
+
+export interface EstimatorReportRow {
+  userId: string | null;
+  username: string;
+  count: number;
+  quotedTotal: number;
+}
+
+export interface EstimateReport {
+  estimateCount: number;
+  quotedTotal: number; // midpoint totals after approved discounts
+  discountTotal: number;
+  pendingDiscounts: EstimateWithCustomer[];
+  byMaterial: MaterialReportRow[];
+  byEstimator: EstimatorReportRow[];
+}
+
+export interface PriceBookSnapshot {
+  version: PriceBookVersion;
+  entries: PriceBookEntry[];
+  rates: PriceBookRate[];
+}
+
+export interface EstimateRecalculation {
+  original: PricedCostBreakdown;
+  current: PricedCostBreakdown;
+  delta: EstimateDelta;
+}
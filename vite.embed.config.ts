@@ -0,0 +1,25 @@
+import { defineConfig } from "vite";
+import path from "path";
+
+// Builds the marketing-site loader script (client/src/embed/loader.ts) as a
+// single classic script next to the app, so it is served at /embed.js. Runs
+// after the main build, which empties the output directory.
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(import.meta.dirname, "client", "src"),
+      "@shared": path.resolve(import.meta.dirname, "shared"),
+    },
+  },
+  publicDir: false,
+  build: {
+    outDir: path.resolve(import.meta.dirname, "dist/public"),
+    emptyOutDir: false,
+    lib: {
+      entry: path.resolve(import.meta.dirname, "client", "src", "embed", "loader.ts"),
+      name: "RoofingCalculatorEmbed",
+      formats: ["iife"],
+      fileName: () => "embed.js",
+    },
+  },
+});